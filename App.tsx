@@ -1,47 +1,126 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { flushSync } from 'react-dom';
 import JSZip from 'jszip';
 import ImageUploader from './components/ImageUploader';
 import PromptInput from './components/PromptInput';
 import ImageList from './components/ImageList';
 import ImageEditModal from './components/ImageEditModal';
 import Lightbox from './components/Lightbox';
-import { ImageFile, ImageStatus, EditHistory } from './types';
-import { editImage, RateLimitError, getTagsFromImage } from './services/geminiService';
-import { SparklesIcon, PlayIcon, DownloadIcon, RetryIcon, ClockIcon, ShuffleIcon, TrashIcon, XCircleIcon, RequeueIcon, TagIcon, ChevronDownIcon } from './components/Icons';
+import MockProviderSettings from './components/MockProviderSettings';
+import ApiKeySettings from './components/ApiKeySettings';
+import GenerationSettingsFields from './components/GenerationSettingsFields';
+import ReferenceImagesPanel from './components/ReferenceImagesPanel';
+import CompositionBuilder from './components/CompositionBuilder';
+import PricingSettings from './components/PricingSettings';
+import DailyQuotaSettings from './components/DailyQuotaSettings';
+import UsageDashboard from './components/UsageDashboard';
+import LatencyHistogram from './components/LatencyHistogram';
+import { ImageFile, ImageStatus, EditHistory, RetryPolicy, ErrorCategory, AttemptLogEntry, StoredApiKey, GenerationSettings, ReferenceImage, ModelPrice, UsageTotals, ResponseMetadata, DailyQuota } from './types';
+import { setApiKeys, builtInApiKey, geminiProvider, BUILT_IN_KEY_ID } from './services/geminiService';
+import { subscribeToKeyUsage } from './services/apiKeyPool';
+import { ApiRequestError, RateLimitError, TimeoutError, InvalidInputError, getErrorCategory, errorCategoryLabels } from './services/apiErrors';
+import { getProvider, listProviders, resolveModel, getMaxCandidates, limitCandidates, DEFAULT_PROVIDER_ID, EditResult } from './services/providers';
+import { BatchQueue, BatchQueueEvent, AdaptiveConcurrency } from './services/batchQueue';
+import { loadImages, saveImages, loadRunReferenceImages, saveRunReferenceImages } from './services/imageStore';
+import { releaseUnusedObjectUrls, downloadBlob } from './services/imageBlobs';
+import { safeLocalStorage } from './services/safeLocalStorage';
+import { getPacificToday, recordDailyUsage } from './services/usageHistory';
+import { readQuotaUsedToday, recordImageRequestToday, hasQuotaRoom } from './services/dailyQuota';
+import { defaultPriceTable, emptyUsage, toUsage, addUsage, formatCost } from './services/usage';
+import { mockProvider, MockProviderConfig, defaultMockProviderConfig, setMockProviderConfig } from './services/mockProvider';
+import { SparklesIcon, SquaresPlusIcon, KeyIcon, PlayIcon, PauseIcon, DownloadIcon, RetryIcon, ClockIcon, ShuffleIcon, TrashIcon, XCircleIcon, RequeueIcon, TagIcon, ChevronDownIcon, ChartBarIcon } from './components/Icons';
 import { promptSuggestions, promptSuggestionsAngelView2, promptSuggestionsCloseUp, promptSuggestionsPose, promptSuggestionsPose2, promptSuggestionsExpression, promptSuggestionsBodyParts, PromptSuggestion, promptSuggestionsFullBody, promptSuggestionsEditing, promptSuggestionsTextToVideo, promptSuggestionsPose3, promptSuggestionsAngelView3 } from './prompts';
 
-const safeLocalStorage = {
-  getItem: (key: string): string | null => {
-    try {
-      if (window.parent && window.parent.localStorage) {
-        return window.parent.localStorage.getItem(key);
-      }
-    } catch (e) {
-      console.warn("Could not access parent localStorage, falling back to iframe's localStorage.", e);
-    }
-    try {
-      return window.localStorage.getItem(key);
-    } catch (e) {
-      console.error("localStorage is not available.", e);
-      return null;
-    }
-  },
-  setItem: (key: string, value: string): void => {
-    try {
-      if (window.parent && window.parent.localStorage) {
-        window.parent.localStorage.setItem(key, value);
-        return;
-      }
-    } catch (e) {
-       console.warn("Could not access parent localStorage, falling back to iframe's localStorage.", e);
-    }
-     try {
-        window.localStorage.setItem(key, value);
-    } catch (e) {
-        console.error("localStorage is not available.", e);
-    }
-  },
+/** How many of the latest completed jobs the batch ETA averages over. */
+const ETA_LATENCY_WINDOW = 20;
+
+const defaultDailyQuota: DailyQuota = {
+  limit: null,
+  unit: 'images',
+  warningPercent: 70,
+};
+
+interface AttemptSettings {
+  model: string;
+  generation: GenerationSettings;
+  retryPolicy: RetryPolicy;
+}
+
+/**
+ * What an image's next attempt runs with, however it was queued: the choices made for it in the
+ * edit dialog, else the run's current settings. What earlier attempts ran with never carries over.
+ */
+const resolveAttemptSettings = (image: ImageFile, run: AttemptSettings): AttemptSettings => ({
+  model: image.modelOverride ?? run.model,
+  generation: image.generationOverride ?? run.generation,
+  retryPolicy: run.retryPolicy,
+});
+
+/** Compares generation settings field by field. A missing field equals one set to undefined. */
+const isSameGeneration = (a: GenerationSettings, b: GenerationSettings): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof GenerationSettings>;
+  return [...keys].every(key => a[key] === b[key]);
+};
+
+const defaultAdaptiveConcurrency: AdaptiveConcurrency & { enabled: boolean } = {
+  enabled: false,
+  min: 1,
+  max: 8,
+};
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 2,
+  retryOn: ['rateLimited', 'timeout', 'textInsteadOfImage', 'safetyBlocked', 'unknown'],
+  rerandomizePrompt: false,
+};
+
+const errorCategories = Object.keys(errorCategoryLabels) as ErrorCategory[];
+
+const defaultGenerationSettings: GenerationSettings = {
+  timeoutSeconds: 60,
+  candidateCount: 1,
+  safetyThreshold: 'default',
+};
+
+/**
+ * Joins prompt fragments the way the batch prompt builder does: as sentences for
+ * natural language, or as a de-duplicated tag list.
+ */
+const joinPromptParts = (parts: string[], useNaturalLanguage: boolean): string => {
+  if (useNaturalLanguage) {
+    return parts.map(part => part.trim()).filter(Boolean).join('. ');
+  }
+  const tags = parts.join(',').split(',').map(t => t.trim()).filter(Boolean);
+  return Array.from(new Set(tags)).join(', ');
+};
+
+const withLastAttemptError = (log: AttemptLogEntry[] | undefined, error: string): AttemptLogEntry[] | undefined => {
+  if (!log || log.length === 0) return log;
+  return [...log.slice(0, -1), { ...log[log.length - 1], error }];
+};
+
+/**
+ * Queued images in the order the queue dispatches them: by priority, then by their place in the list.
+ */
+const getQueueOrder = (images: ImageFile[]): ImageFile[] => {
+  // Array.prototype.sort is stable, so equal priorities keep their list order.
+  return images
+    .filter(img => img.status === ImageStatus.QUEUED)
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+};
+
+/**
+ * Moves an image to just before or after another one in the list.
+ */
+const moveImageNextTo = (images: ImageFile[], imageId: string, anchorId: string, side: 'before' | 'after'): ImageFile[] => {
+  const moving = images.find(img => img.id === imageId);
+  if (!moving || imageId === anchorId) return images;
+  const rest = images.filter(img => img.id !== imageId);
+  const anchorIndex = rest.findIndex(img => img.id === anchorId);
+  if (anchorIndex === -1) return images;
+  rest.splice(side === 'before' ? anchorIndex : anchorIndex + 1, 0, moving);
+  return rest;
 };
 
 const taggingPresets = [
@@ -62,19 +141,12 @@ const taggingPresets = [
   },
 ];
 
-const fileToDataUrl = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
-const compressImageToPNG = (dataUrl: string): Promise<string> => {
+const compressImageToPNG = (image: Blob): Promise<Blob> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
+        const url = URL.createObjectURL(image);
         img.onload = () => {
+            URL.revokeObjectURL(url);
             const canvas = document.createElement('canvas');
             canvas.width = img.width;
             canvas.height = img.height;
@@ -83,10 +155,13 @@ const compressImageToPNG = (dataUrl: string): Promise<string> => {
                 return reject(new Error('Could not get canvas context'));
             }
             ctx.drawImage(img, 0, 0);
-            resolve(canvas.toDataURL('image/png'));
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode PNG')), 'image/png');
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(err);
         };
-        img.onerror = (err) => reject(err);
-        img.src = dataUrl;
+        img.src = url;
     });
 };
 
@@ -112,11 +187,13 @@ const App: React.FC = () => {
     }
   });
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [isZipping, setIsZipping] = useState<boolean>(false);
   const [zipProgress, setZipProgress] = useState<number>(0);
   const [throttleDelay, setThrottleDelay] = useState<number>(0);
-  const [isCoolingDown, setIsCoolingDown] = useState<boolean>(false);
   const [statusMessage, setStatusMessage] = useState<string>('');
+  // When the queue will resume after a rate limit, for the countdown in the status message.
+  const [rateLimitResumeAt, setRateLimitResumeAt] = useState<number | null>(null);
   const [editingImage, setEditingImage] = useState<ImageFile | null>(null);
   const [editSource, setEditSource] = useState<'original' | 'edited'>('edited');
   const [isSingleProcessing, setIsSingleProcessing] = useState<boolean>(false);
@@ -140,6 +217,7 @@ const App: React.FC = () => {
   const [repeatCount, setRepeatCount] = useState<number>(1);
   const [randomizeForEachEdit, setRandomizeForEachEdit] = useState<boolean>(true);
   const [processedTodayCount, setProcessedTodayCount] = useState<number>(0);
+  const [requestsTodayCount, setRequestsTodayCount] = useState<number>(() => readQuotaUsedToday('requests'));
   const [taggingSystemPrompt, setTaggingSystemPrompt] = useState<string>(taggingPresets[2].prompt);
   const [taggingPresetKey, setTaggingPresetKey] = useState<string>('character_only');
   const [isTagging, setIsTagging] = useState<boolean>(false);
@@ -150,55 +228,255 @@ const App: React.FC = () => {
   const [useNaturalLanguage, setUseNaturalLanguage] = useState<boolean>(false);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const [concurrency, setConcurrency] = useState<number>(4);
+  const [adaptiveConcurrency, setAdaptiveConcurrency] = useState(() => {
+    try {
+      const savedSettings = safeLocalStorage.getItem('adaptiveConcurrency');
+      return savedSettings ? { ...defaultAdaptiveConcurrency, ...JSON.parse(savedSettings) } : defaultAdaptiveConcurrency;
+    } catch (error) {
+      console.error("Failed to parse adaptive concurrency settings from localStorage", error);
+      return defaultAdaptiveConcurrency;
+    }
+  });
+  const [effectiveConcurrency, setEffectiveConcurrency] = useState<number>(concurrency);
+  const [storedApiKeys, setStoredApiKeys] = useState<StoredApiKey[]>(() => {
+    try {
+      const savedKeys = safeLocalStorage.getItem('apiKeys');
+      if (!savedKeys) return [];
+      // Keys saved when only one key could be active carry no enabled flag; keep just that one on.
+      const previouslyActiveId = safeLocalStorage.getItem('activeApiKeyId');
+      return (JSON.parse(savedKeys) as StoredApiKey[]).map(k => ({ ...k, enabled: k.enabled ?? k.id === previouslyActiveId }));
+    } catch (error) {
+      console.error("Failed to parse API keys from localStorage", error);
+      return [];
+    }
+  });
+  const [keyUsageToday, setKeyUsageToday] = useState<Record<string, number>>(() => {
+    try {
+      const storedStatsRaw = safeLocalStorage.getItem('apiKeyUsageStats');
+      const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+      return storedStats && storedStats.date === getPacificToday() ? storedStats.counts : {};
+    } catch (error) {
+      console.error("Failed to parse API key usage from localStorage", error);
+      return {};
+    }
+  });
+  const [isApiKeySettingsOpen, setIsApiKeySettingsOpen] = useState<boolean>(false);
+  const [isCompositionBuilderOpen, setIsCompositionBuilderOpen] = useState<boolean>(false);
+  const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState<boolean>(false);
+  const [textToImagePrompt, setTextToImagePrompt] = useState<string>('');
+  const [textToImageCount, setTextToImageCount] = useState<number>(1);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(() => {
+    try {
+      const savedPolicy = safeLocalStorage.getItem('retryPolicy');
+      if (!savedPolicy) return defaultRetryPolicy;
+      const policy: RetryPolicy = { ...defaultRetryPolicy, ...JSON.parse(savedPolicy) };
+      // Policies saved before errors were categorized used 'other' for everything unrecognized.
+      const retryOn = policy.retryOn.map(kind => (kind as string) === 'other' ? 'unknown' : kind);
+      return { ...policy, retryOn: retryOn.filter(kind => errorCategories.includes(kind)) };
+    } catch (error) {
+      console.error("Failed to parse retry policy from localStorage", error);
+      return defaultRetryPolicy;
+    }
+  });
+  const [providerId, setProviderId] = useState<string>(() => safeLocalStorage.getItem('providerId') || DEFAULT_PROVIDER_ID);
+  const provider = useMemo(() => getProvider(providerId), [providerId]);
+  // Saved model ids may belong to another provider, so they're resolved against the current one.
+  const [editModelId, setEditModelId] = useState<string>(() => safeLocalStorage.getItem('editModel') || '');
+  const [textModelId, setTextModelId] = useState<string>(() => safeLocalStorage.getItem('textModel') || '');
+  const editModel = resolveModel(provider.editModels, editModelId);
+  const textModel = resolveModel(provider.textModels, textModelId);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(() => {
+    try {
+      const savedSettings = safeLocalStorage.getItem('generationSettings');
+      return savedSettings ? { ...defaultGenerationSettings, ...JSON.parse(savedSettings) } : defaultGenerationSettings;
+    } catch (error) {
+      console.error("Failed to parse generation settings from localStorage", error);
+      return defaultGenerationSettings;
+    }
+  });
+  const [mockConfig, setMockConfig] = useState<MockProviderConfig>(() => {
+    try {
+      const savedConfig = safeLocalStorage.getItem('mockProviderConfig');
+      return savedConfig ? { ...defaultMockProviderConfig, ...JSON.parse(savedConfig) } : defaultMockProviderConfig;
+    } catch (error) {
+      console.error("Failed to parse mock provider config from localStorage", error);
+      return defaultMockProviderConfig;
+    }
+  });
+  const [priceTable, setPriceTable] = useState<Record<string, ModelPrice>>(() => {
+    try {
+      const savedPrices = safeLocalStorage.getItem('priceTable');
+      return savedPrices ? { ...defaultPriceTable, ...JSON.parse(savedPrices) } : defaultPriceTable;
+    } catch (error) {
+      console.error("Failed to parse price table from localStorage", error);
+      return defaultPriceTable;
+    }
+  });
+  const [dailyBudget, setDailyBudget] = useState<number | null>(() => {
+    try {
+      const savedBudget = safeLocalStorage.getItem('dailyBudget');
+      return savedBudget ? JSON.parse(savedBudget) : null;
+    } catch (error) {
+      console.error("Failed to parse daily budget from localStorage", error);
+      return null;
+    }
+  });
+  const [dailyQuota, setDailyQuota] = useState<DailyQuota>(() => {
+    try {
+      const savedQuota = safeLocalStorage.getItem('dailyQuota');
+      return savedQuota ? { ...defaultDailyQuota, ...JSON.parse(savedQuota) } : defaultDailyQuota;
+    } catch (error) {
+      console.error("Failed to parse daily quota from localStorage", error);
+      return defaultDailyQuota;
+    }
+  });
+  const [usageToday, setUsageToday] = useState<UsageTotals>(() => {
+    try {
+      const storedStatsRaw = safeLocalStorage.getItem('usageStats');
+      const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+      return storedStats && storedStats.date === getPacificToday() ? { ...emptyUsage, ...storedStats.totals } : emptyUsage;
+    } catch (error) {
+      console.error("Failed to parse usage stats from localStorage", error);
+      return emptyUsage;
+    }
+  });
+  // Reset whenever a batch starts.
+  const [runUsage, setRunUsage] = useState<UsageTotals>(emptyUsage);
+  // How long each completed job of the batch took, in milliseconds, in completion order.
+  const [runLatencies, setRunLatencies] = useState<number[]>([]);
+  // Sent with every image, before the image's own references. Kept in IndexedDB alongside the images.
+  const [runReferences, setRunReferences] = useState<ReferenceImage[]>([]);
+  const runReferencesRef = useRef(runReferences);
+  runReferencesRef.current = runReferences;
   const isProcessingRef = useRef(isProcessing);
   isProcessingRef.current = isProcessing;
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const imagesRef = useRef(images);
   imagesRef.current = images;
-
-  // Memoize derived data from the images array to optimize the processing loop.
-  // This avoids multiple expensive traversals (.filter, .some) on every render.
-  const {
-    queuedImages,
-    processingCount,
-    errorImagesToRetry,
-    hasProcessedImages
-  } = useMemo(() => {
-    const queued: ImageFile[] = [];
-    let processing = 0;
-    const retriable: ImageFile[] = [];
-    let processed = false;
-
-    for (const img of images) {
-      switch (img.status) {
-        case ImageStatus.QUEUED:
-          queued.push(img);
-          break;
-        case ImageStatus.PROCESSING:
-          processing++;
-          break;
-        case ImageStatus.ERROR:
-          if (!img.retried) {
-            retriable.push(img);
-          }
-          processed = true;
-          break;
-        case ImageStatus.COMPLETED:
-          processed = true;
-          break;
-      }
-    }
-    return {
-      queuedImages: queued,
-      processingCount: processing,
-      errorImagesToRetry: retriable,
-      hasProcessedImages: processed
-    };
-  }, [images]);
+  const [isRestoring, setIsRestoring] = useState<boolean>(true);
+  const savedImagesRef = useRef<Map<string, ImageFile>>(new Map());
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
 
   // Create a memoized map for quick ID-based lookups (O(1) complexity),
   // which is much faster than .find() (O(n) complexity) inside a loop.
   const imageMap = useMemo(() => new Map(images.map(i => [i.id, i])), [images]);
+  const queuePositions = useMemo(() => new Map(getQueueOrder(images).map((img, index) => [img.id, index + 1])), [images]);
+  const imageMapRef = useRef(imageMap);
+  imageMapRef.current = imageMap;
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  const editModelRef = useRef(editModel);
+  editModelRef.current = editModel;
+  const generationSettingsRef = useRef(generationSettings);
+  generationSettingsRef.current = generationSettings;
+  const retryPolicyRef = useRef(retryPolicy);
+  retryPolicyRef.current = retryPolicy;
+  const priceTableRef = useRef(priceTable);
+  priceTableRef.current = priceTable;
+  const dailyBudgetRef = useRef(dailyBudget);
+  dailyBudgetRef.current = dailyBudget;
+  const usageTodayRef = useRef(usageToday);
+  usageTodayRef.current = usageToday;
+  // The Pacific day on which the user chose to keep going past the daily budget.
+  const budgetOverrideDateRef = useRef<string | null>(null);
+  const dailyQuotaRef = useRef(dailyQuota);
+  dailyQuotaRef.current = dailyQuota;
+  // Likewise for the daily quota.
+  const quotaOverrideDateRef = useRef<string | null>(null);
+  // Jobs whose current attempt has sent its request, which the requests quota already counts.
+  const requestSentJobIdsRef = useRef(new Set<string>());
+  // What each job's latest attempt ran with. Written to the image once the attempt produced a result.
+  const attemptSettingsRef = useRef(new Map<string, AttemptSettings>());
+
+  const countImageRequest = () => {
+    const newCount = recordImageRequestToday();
+    setRequestsTodayCount(prev => newCount ?? prev + 1);
+  };
+
+  const activeRandomSources = useMemo(() => {
+    const sources: PromptSuggestion[][] = [];
+    if (randomizeSources.angle) sources.push(promptSuggestions);
+    if (randomizeSources.angle2) sources.push(promptSuggestionsAngelView2);
+    if (randomizeSources.angle3) sources.push(promptSuggestionsAngelView3);
+    if (randomizeSources.closeup) sources.push(promptSuggestionsCloseUp);
+    if (randomizeSources.pose) sources.push(promptSuggestionsPose);
+    if (randomizeSources.pose2) sources.push(promptSuggestionsPose2);
+    if (randomizeSources.expression) sources.push(promptSuggestionsExpression);
+    if (randomizeSources.bodyParts) sources.push(promptSuggestionsBodyParts);
+    if (randomizeSources.fullBody) sources.push(promptSuggestionsFullBody);
+    if (randomizeSources.textToVideo) sources.push(promptSuggestionsTextToVideo);
+    if (randomizeSources.pose3) sources.push(promptSuggestionsPose3);
+    return sources;
+  }, [randomizeSources]);
+  // Read by the executor when it draws a fresh prompt for a retry.
+  const randomPromptSettingsRef = useRef({ activeRandomSources, useNaturalLanguage });
+  randomPromptSettingsRef.current = { activeRandomSources, useNaturalLanguage };
+
+  // The batch scheduler. It only tracks image ids; the executor reads the latest
+  // image data through refs so it always sees the current prompt and provider.
+  const [queue] = useState(() => new BatchQueue<EditResult>({
+    concurrency: 4,
+    isRateLimitError: (error) => error instanceof RateLimitError,
+    isOverloadError: (error) => error instanceof TimeoutError,
+    getRetryAfterMs: (error) => error instanceof RateLimitError ? error.retryAfterMs : undefined,
+    shouldRetry: (job, error) => {
+      const policy = attemptSettingsRef.current.get(job.id)?.retryPolicy ?? retryPolicyRef.current;
+      return job.failures < policy.maxAttempts && policy.retryOn.includes(getErrorCategory(error));
+    },
+    getPriority: (id) => imageMapRef.current.get(id)?.priority ?? 0,
+    canDispatch: (_job, inFlight) => {
+      const quota = dailyQuotaRef.current;
+      if (quotaOverrideDateRef.current === getPacificToday()) return true;
+      return hasQuotaRoom(quota, readQuotaUsedToday(quota.unit), inFlight, requestSentJobIdsRef.current.size);
+    },
+    executor: async (job, signal) => {
+      const imageToProcess = imageMapRef.current.get(job.id);
+      if (!imageToProcess) throw new Error('Image not found.');
+
+      let prompt = imageToProcess.prompt || '';
+      const settings = resolveAttemptSettings(imageToProcess, {
+        model: editModelRef.current,
+        generation: generationSettingsRef.current,
+        retryPolicy: retryPolicyRef.current,
+      });
+      const policy = settings.retryPolicy;
+      const { activeRandomSources, useNaturalLanguage } = randomPromptSettingsRef.current;
+      if (job.failures > 0 && policy.rerandomizePrompt && imageToProcess.basePrompt !== undefined && activeRandomSources.length > 0) {
+        const suggestions = activeRandomSources.map(source => {
+          const item = source[Math.floor(Math.random() * source.length)];
+          return useNaturalLanguage ? item.natural : item.value;
+        });
+        prompt = joinPromptParts([imageToProcess.basePrompt, ...suggestions], useNaturalLanguage);
+      }
+
+      const model = resolveModel(providerRef.current.editModels, settings.model);
+      const generation = limitCandidates(settings.generation, providerRef.current.editModels, model);
+      const inputs = (imageToProcess.compositionInputs || []).map(input => input.blob);
+      const references = [...runReferencesRef.current, ...(imageToProcess.referenceImages || [])].map(reference => reference.blob);
+      const attempt: AttemptLogEntry = { timestamp: Date.now(), prompt };
+      attemptSettingsRef.current.set(job.id, { model, generation, retryPolicy: policy });
+      setImages(prev => prev.map(img => img.id === job.id ? { ...img, prompt, retryPolicy: policy, attemptLog: [...(img.attemptLog || []), attempt] } : img));
+      if (imageToProcess.isGeneration) {
+        if (!providerRef.current.capabilities.textToImage) {
+          throw new InvalidInputError(`${providerRef.current.label} can't generate images from text.`);
+        }
+        if (!prompt.trim()) {
+          throw new InvalidInputError('Text-to-image jobs need a prompt.');
+        }
+      }
+      const onRequestSent = () => {
+        requestSentJobIdsRef.current.add(job.id);
+        countImageRequest();
+      };
+      try {
+        return imageToProcess.isGeneration
+          ? await providerRef.current.generate(prompt, { model, signal, generation, inputs, references, onRequestSent })
+          : await providerRef.current.edit(imageToProcess.originalBlob, prompt, { model, signal, generation, inputs, references, onRequestSent });
+      } finally {
+        requestSentJobIdsRef.current.delete(job.id);
+      }
+    },
+  }));
 
 
   // Effect to play silent audio during processing to keep the tab active.
@@ -227,17 +505,21 @@ const App: React.FC = () => {
     }
   }, [isProcessing]);
 
-  const getCounterStyles = (count: number): { containerClasses: string; numberClasses: string } => {
+  /**
+   * @param limit Where the counter turns red.
+   * @param warningAt Where it turns orange. It turns yellow at 40% of the limit.
+   */
+  const getCounterStyles = (count: number, limit: number, warningAt: number): { containerClasses: string; numberClasses: string } => {
     let containerClasses = "mt-4 text-sm font-medium tracking-wide transition-all duration-300 inline-block";
     let numberClasses = "font-bold text-base";
 
-    if (count >= 100) {
+    if (count >= limit) {
         containerClasses += " p-2 rounded-lg bg-red-900/50 border border-red-700 text-red-300 scale-105";
         numberClasses += " text-red-200 text-lg animate-pulse";
-    } else if (count >= 70) {
+    } else if (count >= warningAt) {
         containerClasses += " p-2 rounded-lg bg-orange-800/50 border border-orange-700 text-orange-300 scale-105";
         numberClasses += " text-orange-200 text-lg animate-pulse";
-    } else if (count >= 40) {
+    } else if (count >= limit * 0.4) {
         containerClasses += " text-yellow-400";
         numberClasses += " text-yellow-300";
     } else {
@@ -248,10 +530,6 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    const getPacificToday = () => {
-      return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
-    };
-
     try {
       const storedStatsRaw = safeLocalStorage.getItem('processedImageStats');
       const todayStr = getPacificToday();
@@ -287,10 +565,143 @@ const App: React.FC = () => {
       console.error("Failed to save pinned prompts to localStorage", error);
     }
   }, [pinnedPrompts]);
+
+  // Restore images saved by a previous session so a reload doesn't lose the batch.
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImages(), loadRunReferenceImages()])
+      .then(([restoredImages, restoredReferences]) => {
+        if (cancelled) return;
+        savedImagesRef.current = new Map(restoredImages.map(img => [img.id, img]));
+        if (restoredImages.length > 0) {
+          setImages(prev => [...restoredImages, ...prev]);
+        }
+        if (restoredReferences.length > 0) {
+          setRunReferences(prev => [...restoredReferences, ...prev]);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to restore images from IndexedDB", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Revoke object URLs for image data that is no longer referenced by any image.
+  useEffect(() => {
+    const liveBlobs = new Set<Blob>(runReferences.map(reference => reference.blob));
+    for (const img of images) {
+      liveBlobs.add(img.originalBlob);
+      if (img.editedBlob) liveBlobs.add(img.editedBlob);
+      img.candidates?.forEach(candidate => liveBlobs.add(candidate));
+      img.referenceImages?.forEach(reference => liveBlobs.add(reference.blob));
+      img.compositionInputs?.forEach(input => liveBlobs.add(input.blob));
+      img.history?.forEach(entry => liveBlobs.add(entry.blob));
+    }
+    releaseUnusedObjectUrls(liveBlobs);
+  }, [images, runReferences]);
+
+  // Persist image changes, debounced so rapid status updates during a batch are coalesced.
+  // Saves are chained so each one diffs against the result of the previous one.
+  useEffect(() => {
+    if (isRestoring) return;
+    const timer = window.setTimeout(() => {
+      saveChainRef.current = saveChainRef.current
+        .then(() => saveImages(savedImagesRef.current, images))
+        .then(saved => {
+          savedImagesRef.current = saved;
+        })
+        .catch(error => {
+          console.error("Failed to save images to IndexedDB", error);
+        });
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [images, isRestoring]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    saveRunReferenceImages(runReferences).catch(error => {
+      console.error("Failed to save reference images to IndexedDB", error);
+    });
+  }, [runReferences, isRestoring]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('providerId', providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('editModel', editModelId);
+  }, [editModelId]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('textModel', textModelId);
+  }, [textModelId]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('generationSettings', JSON.stringify(generationSettings));
+  }, [generationSettings]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('priceTable', JSON.stringify(priceTable));
+  }, [priceTable]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('dailyBudget', JSON.stringify(dailyBudget));
+  }, [dailyBudget]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('dailyQuota', JSON.stringify(dailyQuota));
+  }, [dailyQuota]);
+
+  useEffect(() => {
+    setMockProviderConfig(mockConfig);
+    safeLocalStorage.setItem('mockProviderConfig', JSON.stringify(mockConfig));
+  }, [mockConfig]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('adaptiveConcurrency', JSON.stringify(adaptiveConcurrency));
+  }, [adaptiveConcurrency]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('retryPolicy', JSON.stringify(retryPolicy));
+  }, [retryPolicy]);
+
+  const enabledApiKeys = useMemo(() => storedApiKeys.filter(k => k.enabled), [storedApiKeys]);
+  const hasUsableApiKey = enabledApiKeys.length > 0 || !!builtInApiKey;
+
+  useEffect(() => {
+    setApiKeys(enabledApiKeys.map(({ id, key }) => ({ id, key })));
+  }, [enabledApiKeys]);
+
+  useEffect(() => {
+    safeLocalStorage.setItem('apiKeys', JSON.stringify(storedApiKeys));
+  }, [storedApiKeys]);
+
+  // Counts every request sent with each key, per Pacific day, next to the processed images counter.
+  useEffect(() => {
+    return subscribeToKeyUsage((keyId) => {
+      const todayStr = getPacificToday();
+      try {
+        const storedStatsRaw = safeLocalStorage.getItem('apiKeyUsageStats');
+        const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+        const counts: Record<string, number> = storedStats && storedStats.date === todayStr ? storedStats.counts : {};
+        const newCounts = { ...counts, [keyId]: (counts[keyId] ?? 0) + 1 };
+        safeLocalStorage.setItem('apiKeyUsageStats', JSON.stringify({ counts: newCounts, date: todayStr }));
+        setKeyUsageToday(newCounts);
+      } catch (error) {
+        console.error("Failed to update API key usage in localStorage", error);
+        setKeyUsageToday(prev => ({ ...prev, [keyId]: (prev[keyId] ?? 0) + 1 }));
+      }
+    });
+  }, []);
   
   useEffect(() => {
     let timer: number | undefined;
-    if (isProcessing) {
+    if (isProcessing && !isPaused) {
       // FIX: Use window.setInterval to ensure the browser's implementation is used, which returns a number.
       // This resolves the TypeScript error where Node.js's Timeout type is inferred instead.
       timer = window.setInterval(() => {
@@ -302,7 +713,7 @@ const App: React.FC = () => {
         window.clearInterval(timer);
       }
     };
-  }, [isProcessing]);
+  }, [isProcessing, isPaused]);
 
 
   useEffect(() => {
@@ -312,10 +723,8 @@ const App: React.FC = () => {
   }, [isProcessing]);
 
   const incrementProcessedTodayCount = useCallback(() => {
-    const getPacificToday = () => {
-      return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
-    };
     const todayStr = getPacificToday();
+    recordDailyUsage({ imagesProcessed: 1 });
 
     try {
         const storedStatsRaw = safeLocalStorage.getItem('processedImageStats');
@@ -338,6 +747,75 @@ const App: React.FC = () => {
     }
   }, []);
 
+  /**
+   * Adds one response's usage to its image and to today's totals, and pauses the queue once
+   * today's estimated spend reaches the daily budget.
+   * @returns The request's usage, so batch events can add it to the run's totals.
+   */
+  const recordUsage = useCallback((imageId: string, model: string | undefined, metadata: ResponseMetadata | undefined, imageCount: number): UsageTotals => {
+    const usage = toUsage(metadata, imageCount, model ? priceTableRef.current[model] : undefined);
+    setImages(prev => prev.map(img => img.id === imageId ? { ...img, usage: addUsage(img.usage, usage) } : img));
+
+    const todayStr = getPacificToday();
+    let totals: UsageTotals;
+    try {
+        const storedStatsRaw = safeLocalStorage.getItem('usageStats');
+        const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+        totals = addUsage(storedStats && storedStats.date === todayStr ? { ...emptyUsage, ...storedStats.totals } : emptyUsage, usage);
+        safeLocalStorage.setItem('usageStats', JSON.stringify({ totals, date: todayStr }));
+    } catch (error) {
+        console.error("Failed to update usage stats in localStorage", error);
+        totals = addUsage(usageTodayRef.current, usage);
+    }
+    setUsageToday(totals);
+    recordDailyUsage({ usage });
+
+    const budget = dailyBudgetRef.current;
+    if (budget !== null && totals.cost >= budget && budgetOverrideDateRef.current !== todayStr && isProcessingRef.current && !queue.isPaused) {
+        queue.pause();
+        setIsPaused(true);
+        setStatusMessage(`Paused: today's estimated spend of ${formatCost(totals.cost)} reached the daily budget of ${formatCost(budget)}. Resume to continue anyway.`);
+    }
+    return usage;
+  }, [queue]);
+
+  /**
+   * Asks before starting or resuming work once today's budget is spent.
+   * @returns Whether to go ahead. Going over the budget once lifts it for the rest of the day.
+   */
+  const confirmOverBudget = useCallback((): boolean => {
+    const todayStr = getPacificToday();
+    if (dailyBudget === null || usageToday.cost < dailyBudget || budgetOverrideDateRef.current === todayStr) {
+        return true;
+    }
+    if (!window.confirm(`Today's estimated spend of ${formatCost(usageToday.cost)} has reached the daily budget of ${formatCost(dailyBudget)}. Continue anyway?`)) {
+        return false;
+    }
+    budgetOverrideDateRef.current = todayStr;
+    return true;
+  }, [dailyBudget, usageToday]);
+
+  /**
+   * Asks before starting or resuming work once today's quota is used up.
+   * @returns Whether to go ahead. Going over the quota once lifts it for the rest of the day.
+   */
+  const confirmOverQuota = useCallback((): boolean => {
+    const todayStr = getPacificToday();
+    const { limit, unit } = dailyQuota;
+    if (limit === null || quotaOverrideDateRef.current === todayStr) {
+        return true;
+    }
+    const used = readQuotaUsedToday(unit);
+    if (used < limit) {
+        return true;
+    }
+    if (!window.confirm(`Today's quota of ${limit} ${unit} is used up (${used} so far). Keep processing past it for the rest of the day?`)) {
+        return false;
+    }
+    quotaOverrideDateRef.current = todayStr;
+    return true;
+  }, [dailyQuota]);
+
 
   const handleImagesSelected = async (files: FileList) => {
     const n = files.length;
@@ -346,29 +824,83 @@ const App: React.FC = () => {
       setRepeatCount(newRepeatCount);
     }
     
-    const newImageFiles: ImageFile[] = await Promise.all(
-      Array.from(files).map(async (file) => {
-        const dataUrl = await fileToDataUrl(file);
-        return {
-          id: `${file.name}-${Date.now()}`,
-          file,
-          originalDataUrl: dataUrl,
-          status: ImageStatus.QUEUED,
-        };
-      })
-    );
-    setImages((prevImages) => [...prevImages, ...newImageFiles]);
+    // A File is already a Blob, so it can be used as the original image directly.
+    const newImageFiles: ImageFile[] = Array.from(files).map((file) => ({
+      id: `${file.name}-${Date.now()}`,
+      file,
+      originalBlob: file,
+      status: ImageStatus.QUEUED,
+    }));
+    flushSync(() => {
+      setImages((prevImages) => [...prevImages, ...newImageFiles]);
+    });
     if (isProcessing) {
       setTotalInBatch(prev => prev + newImageFiles.length);
+      queue.enqueue(newImageFiles.map(img => img.id));
+    }
+  };
+
+  // Adds a composition job built from uploaded images. The first image becomes the job's
+  // original, so the card, the edit dialog and the ZIP export treat it like any other image.
+  const handleCreateComposition = (inputIds: string[], prompt: string) => {
+    const inputImages = inputIds
+      .map(id => imagesRef.current.find(img => img.id === id))
+      .filter((img): img is ImageFile => !!img);
+    if (inputImages.length < 2) return;
+
+    const [first, ...rest] = inputImages;
+    const baseNames = inputImages.map(img => img.file.name.replace(/\.[^/.]+$/, ""));
+    const extension = first.file.name.split('.').pop() || 'png';
+    const composition: ImageFile = {
+      id: `composition-${Date.now()}`,
+      file: new File([first.originalBlob], `${baseNames.join('+')}.${extension}`, { type: first.originalBlob.type }),
+      originalBlob: first.originalBlob,
+      compositionInputs: rest.map(img => ({ id: img.id, name: img.file.name, blob: img.originalBlob })),
+      prompt,
+      status: ImageStatus.QUEUED,
+    };
+    flushSync(() => {
+      setImages(prevImages => [...prevImages, composition]);
+    });
+    if (isProcessing) {
+      setTotalInBatch(prev => prev + 1);
+      queue.enqueue([composition.id]);
     }
+    setIsCompositionBuilderOpen(false);
+  };
+
+  // Adds text-to-image jobs. They go through the same prompt building, randomization and
+  // repeats as uploaded images when the batch starts; the prompt here is their individual prompt.
+  const handleAddTextToImageJobs = () => {
+    const timestamp = Date.now();
+    const newJobs: ImageFile[] = Array.from({ length: textToImageCount }, (_, i) => {
+      const placeholder = new File([], `text-to-image-${timestamp}-${i + 1}.png`, { type: 'image/png' });
+      return {
+        id: `text-to-image-${timestamp}-${i}`,
+        file: placeholder,
+        originalBlob: placeholder,
+        prompt: textToImagePrompt.trim() || undefined,
+        isGeneration: true,
+        status: ImageStatus.QUEUED,
+      };
+    });
+    flushSync(() => {
+      setImages(prevImages => [...prevImages, ...newJobs]);
+    });
+    if (isProcessing) {
+      setTotalInBatch(prev => prev + newJobs.length);
+      queue.enqueue(newJobs.map(job => job.id));
+    }
+    setTextToImagePrompt('');
   };
 
   const startProcessing = useCallback(async () => {
     const hasPrompt = !!currentPrompt.trim();
     const hasIndividualPrompts = images.some(img => img.status === ImageStatus.QUEUED && !!img.prompt);
     const canRandomize = Object.values(randomizeSources).some(v => v);
+    const shouldAutoTag = autoTagBeforeProcessing && provider.capabilities.tagging;
     
-    if (!hasPrompt && !hasIndividualPrompts && !(randomizeForEachEdit && canRandomize) && !autoTagBeforeProcessing) {
+    if (!hasPrompt && !hasIndividualPrompts && !(randomizeForEachEdit && canRandomize) && !shouldAutoTag) {
       alert('Please enter an editing prompt or configure and enable prompt randomization/auto-tagging for the queue.');
       return;
     }
@@ -383,20 +915,26 @@ const App: React.FC = () => {
         alert('No images in queue to process.');
         return;
     }
+
+    if (!confirmOverQuota() || !confirmOverBudget()) {
+        return;
+    }
     
     setElapsedTime(0);
+    setRunUsage(emptyUsage);
+    setRunLatencies([]);
 
-    if (autoTagBeforeProcessing) {
+    if (shouldAutoTag) {
         setStatusMessage('Auto-tagging queued images...');
         const tagPromises = queuedImages.map(
             async (imageToTag: ImageFile): Promise<{ id: string; prompt: string; error?: string }> => {
-                if (imageToTag.prompt?.trim()) {
-                    return { id: imageToTag.id, prompt: imageToTag.prompt, error: undefined };
+                // Text-to-image jobs have no image to tag.
+                if (imageToTag.prompt?.trim() || imageToTag.isGeneration) {
+                    return { id: imageToTag.id, prompt: imageToTag.prompt || '', error: undefined };
                 }
                 try {
-                    const base64Data = imageToTag.originalDataUrl.split(',')[1];
-                    if (!base64Data) throw new Error('Invalid image data URL.');
-                    const tagsResponse = await getTagsFromImage(base64Data, imageToTag.file.type, taggingSystemPrompt);
+                    recordDailyUsage({ taggingCalls: 1 });
+                    const tagsResponse = await provider.tag(imageToTag.originalBlob, taggingSystemPrompt, { model: textModel });
                     const tagsPart = tagsResponse.split('.')[0];
                     const cleanedTags = tagsPart.replace(/\.$/, '').trim();
                     const allTags = cleanedTags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
@@ -488,20 +1026,21 @@ const App: React.FC = () => {
                     }
                 }
                 
+                const basePrompt = joinPromptParts([currentPrompt, image.prompt || ''], useNaturalLanguage);
                 const sourceItem: ImageFile = {
                     ...image,
                     id: `${image.id}-repeat-0-${Date.now()}-${Math.random()}`,
                     prompt: promptsForImage[0],
+                    basePrompt,
                     isRepeat: false,
                     showOriginal: true,
                 };
                 const repeatItems = Array.from({ length: repeatCount - 1 }, (_, i) => {
-                    const { originalDataUrl, ...restOfImage } = image;
                     return {
-                        ...restOfImage,
-                        originalDataUrl: '',
+                        ...image,
                         id: `${image.id}-repeat-${i + 1}-${Date.now()}-${Math.random()}`,
                         prompt: promptsForImage[i + 1],
+                        basePrompt,
                         isRepeat: true,
                         showOriginal: false,
                         sourceImageId: sourceItem.id,
@@ -534,7 +1073,8 @@ const App: React.FC = () => {
                     finalPrompt = Array.from(allTags).join(', ');
                 }
                 
-                return { ...image, prompt: finalPrompt, isRepeat: false, showOriginal: true };
+                const basePrompt = joinPromptParts([currentPrompt, image.prompt || ''], useNaturalLanguage);
+                return { ...image, prompt: finalPrompt, basePrompt, isRepeat: false, showOriginal: true };
             });
         }
     } else {
@@ -553,6 +1093,7 @@ const App: React.FC = () => {
             return {
                 ...image,
                 prompt: finalPrompt,
+                basePrompt: undefined,
                 isRepeat: false,
                 showOriginal: true,
             };
@@ -561,10 +1102,8 @@ const App: React.FC = () => {
         if (repeatCount > 1) {
             allQueuedImages = allQueuedImagesWithPrompts.flatMap(sourceImage => {
                 const copies = Array.from({ length: repeatCount - 1 }, (_, i) => {
-                    const { originalDataUrl, ...restOfImage } = sourceImage;
                     return {
-                        ...restOfImage,
-                        originalDataUrl: '',
+                        ...sourceImage,
                         id: `${sourceImage.id}-repeat-${i + 1}-${Date.now()}-${Math.random()}`,
                         isRepeat: true,
                         showOriginal: false,
@@ -578,179 +1117,157 @@ const App: React.FC = () => {
         }
     }
     
-    setIsProcessing(true);
-    setImages(prev => [
-        ...prev.filter(img => img.status !== ImageStatus.QUEUED),
-        ...allQueuedImages
-    ]);
+    // Commit the new images synchronously, since the queue's executor reads them from state.
+    flushSync(() => {
+      setIsProcessing(true);
+      setImages(prev => [
+          ...prev.filter(img => img.status !== ImageStatus.QUEUED),
+          ...allQueuedImages.map(img => ({ ...img, attemptLog: undefined }))
+      ]);
+    });
+    queue.clear();
+    queue.enqueue(allQueuedImages.map(img => img.id));
+    queue.start();
     
     setTotalInBatch(allQueuedImages.length);
     setStatusMessage('');
     if (hasPrompt && !promptHistory.includes(currentPrompt) && !pinnedPrompts.includes(currentPrompt)) {
       setPromptHistory(prev => [currentPrompt, ...prev.slice(0, 9)]);
     }
-  }, [currentPrompt, images, isProcessing, promptHistory, pinnedPrompts, repeatCount, randomizeForEachEdit, randomizeSources, autoTagBeforeProcessing, taggingSystemPrompt, useNaturalLanguage]);
+  }, [currentPrompt, images, isProcessing, promptHistory, pinnedPrompts, repeatCount, randomizeForEachEdit, randomizeSources, autoTagBeforeProcessing, taggingSystemPrompt, useNaturalLanguage, provider, textModel, queue, confirmOverQuota, confirmOverBudget]);
 
-  // The main processing loop effect, now optimized.
-  // This effect is responsible for picking up queued images and processing them
-  // based on the concurrency limit. It also handles auto-retrying failed images.
   useEffect(() => {
-    if (!isProcessing || isCoolingDown) {
-      return;
-    }
-    
-    // All concurrency slots are full, so we wait.
-    if (processingCount >= concurrency) {
-      return;
-    }
-  
-    const availableSlots = concurrency - processingCount;
-    const imagesToStart = queuedImages.slice(0, availableSlots);
-  
-    // No more images in the queue to process.
-    if (imagesToStart.length === 0) {
-      // If nothing is currently processing, the batch might be done.
-      if (processingCount === 0) {
-        // Check if there are any failed images that we can auto-retry.
-        if (errorImagesToRetry.length > 0) {
-          setStatusMessage(`Batch complete. Automatically retrying ${errorImagesToRetry.length} failed image(s)...`);
-          const retryIds = new Set(errorImagesToRetry.map(img => img.id));
+    queue.configure({
+      concurrency,
+      adaptiveConcurrency: adaptiveConcurrency.enabled ? { min: adaptiveConcurrency.min, max: adaptiveConcurrency.max } : null,
+      throttleDelayMs: throttleDelay * 1000,
+    });
+    setEffectiveConcurrency(queue.concurrency);
+  }, [queue, concurrency, adaptiveConcurrency, throttleDelay]);
+
+  // Counts down to the end of a rate-limit cooldown in the status message.
+  useEffect(() => {
+    if (rateLimitResumeAt === null || isPaused) return;
+    const updateCountdown = () => {
+      const seconds = Math.max(0, Math.ceil((rateLimitResumeAt - Date.now()) / 1000));
+      setStatusMessage(`API rate limit hit. Retrying in ${seconds}s...`);
+    };
+    updateCountdown();
+    const timer = window.setInterval(updateCountdown, 1000);
+    return () => window.clearInterval(timer);
+  }, [rateLimitResumeAt, isPaused]);
+
+  // Mirrors queue events into the images state. The queue decides what runs when,
+  // including the cooldown after rate limits and the one automatic retry of failed images.
+  useEffect(() => {
+    const clearRetryMessage = () => setStatusMessage(prev => prev.includes('Automatically retrying') ? '' : prev);
+    const updateImage = (imageId: string, update: Partial<ImageFile>) => {
+      setImages(prev => prev.map(img => img.id === imageId ? { ...img, ...update } : img));
+    };
+
+    return queue.subscribe((event: BatchQueueEvent<EditResult>) => {
+      switch (event.type) {
+        case 'started':
+          clearRetryMessage();
+          // The queue's clock is Date.now, so its timestamps line up with the ones taken here.
+          updateImage(event.job.id, {
+            status: ImageStatus.PROCESSING,
+            error: undefined,
+            errorCategory: undefined,
+            responseMetadata: undefined,
+            queuedAt: event.job.queuedAt,
+            startedAt: event.job.startedAt,
+            finishedAt: undefined,
+          });
+          break;
+        case 'completed': {
+          const finishedAt = Date.now();
+          const latencyMs = finishedAt - (event.job.startedAt ?? finishedAt);
+          const settings = attemptSettingsRef.current.get(event.job.id);
+          attemptSettingsRef.current.delete(event.job.id);
+          const usage = recordUsage(event.job.id, settings?.model, event.result.metadata, event.result.images.length);
+          setRunUsage(prev => addUsage(prev, usage));
+          updateImage(event.job.id, {
+            status: ImageStatus.COMPLETED,
+            editedBlob: event.result.images[0],
+            model: settings?.model,
+            generation: settings?.generation,
+            candidates: event.result.images.length > 1 ? event.result.images : undefined,
+            responseMetadata: event.result.metadata,
+            finishedAt,
+          });
+          incrementProcessedTodayCount();
+          recordDailyUsage({ latencyMs });
+          setRunLatencies(prev => [...prev, latencyMs]);
+          break;
+        }
+        case 'failed': {
+          console.error('Error processing image:', event.error);
+          const error = event.error instanceof Error ? event.error.message : String(event.error);
+          const responseMetadata = event.error instanceof ApiRequestError ? event.error.metadata : undefined;
+          const settings = attemptSettingsRef.current.get(event.job.id);
+          attemptSettingsRef.current.delete(event.job.id);
+          recordDailyUsage({ failure: getErrorCategory(event.error) });
+          // Only requests that got a response are billed.
+          if (responseMetadata) {
+            const usage = recordUsage(event.job.id, settings?.model, responseMetadata, 0);
+            setRunUsage(prev => addUsage(prev, usage));
+          }
+          setImages(prev => prev.map(img => img.id === event.job.id
+            ? { ...img, status: ImageStatus.ERROR, error, errorCategory: getErrorCategory(event.error), responseMetadata, finishedAt: Date.now(), attemptLog: withLastAttemptError(img.attemptLog, error) }
+            : img
+          ));
+          break;
+        }
+        case 'rate-limited': {
+          // The queue pauses dispatching and puts the image back at the front.
+          const resumeAt = Date.now() + event.retryInMs;
+          setRateLimitResumeAt(prev => prev !== null && prev > resumeAt ? prev : resumeAt);
+          const error = `Rate limited (attempt ${event.job.rateLimitRetries} of ${event.maxRetries}). Will retry.`;
+          setImages(prev => prev.map(img => img.id === event.job.id
+            ? { ...img, status: ImageStatus.QUEUED, error, attemptLog: withLastAttemptError(img.attemptLog, error) }
+            : img
+          ));
+          break;
+        }
+        case 'cooldown-ended':
+          setRateLimitResumeAt(null);
+          setStatusMessage('');
+          break;
+        case 'concurrency-changed':
+          setEffectiveConcurrency(event.concurrency);
+          break;
+        case 'retrying': {
+          setStatusMessage(`Batch complete. Automatically retrying ${event.jobs.length} failed image(s)...`);
+          const retryIds = new Set(event.jobs.map(job => job.id));
           setImages(prevImages =>
             prevImages.map(img =>
               retryIds.has(img.id)
-                ? { ...img, status: ImageStatus.QUEUED, error: undefined, retried: true }
+                ? { ...img, status: ImageStatus.QUEUED, error: undefined, errorCategory: undefined }
                 : img
             )
           );
-        } else {
-          // No more queued items and no items to retry, so we're finished.
-          setIsProcessing(false);
-          if (statusMessage.includes('Automatically retrying')) {
-            setStatusMessage('');
-          }
-        }
-      }
-      return;
-    }
-  
-    if (statusMessage.includes('Automatically retrying')) {
-      setStatusMessage('');
-    }
-  
-    const delay = hasProcessedImages ? throttleDelay * 1000 : 0;
-  
-    // Fire off processing for all available slots.
-    imagesToStart.forEach(imageToProcess => {
-      setTimeout(async () => {
-        // A safety check. If processing was cancelled while the timer was pending, do nothing.
-        if (!isProcessingRef.current) return;
-  
-        const imagePrompt = imageToProcess.prompt || '';
-  
-        // For repeated images, we need the source data URL from the original image.
-        // We use the memoized imageMap for efficient O(1) lookup.
-        let sourceDataUrl = imageToProcess.originalDataUrl;
-        if (imageToProcess.sourceImageId) {
-          const sourceImage = imageMap.get(imageToProcess.sourceImageId);
-          if (sourceImage) {
-            sourceDataUrl = sourceImage.originalDataUrl;
-          } else {
-              // Handle case where source image might have been deleted.
-              console.error(`Source image with id ${imageToProcess.sourceImageId} not found.`);
-              setImages(prev => prev.map(img =>
-                  img.id === imageToProcess.id
-                  ? { ...img, status: ImageStatus.ERROR, error: 'Source image not found.' }
-                  : img
-              ));
-              return;
-          }
+          break;
         }
-  
-        // Set status to "Processing"
-        setImages(prev =>
-          prev.map(img =>
-            img.id === imageToProcess.id
-              ? { ...img, status: ImageStatus.PROCESSING, prompt: imagePrompt, error: undefined }
-              : img
-          )
-        );
-  
-        try {
-          const base64Data = sourceDataUrl.split(',')[1];
-          if (!base64Data) throw new Error('Invalid image data URL.');
-  
-          const editedData = await editImage(
-            base64Data,
-            imageToProcess.file.type,
-            imagePrompt
-          );
-  
-          // Set status to "Completed" on success
-          setImages(prev =>
-            prev.map(img =>
-              img.id === imageToProcess.id
-                ? {
-                    ...img,
-                    status: ImageStatus.COMPLETED,
-                    editedDataUrl: `data:${imageToProcess.file.type};base64,${editedData}`,
-                  }
-                : img
-            )
-          );
-          incrementProcessedTodayCount();
-        } catch (error) {
-          console.error('Error processing image:', error);
-  
-          if (error instanceof RateLimitError) {
-            // If we hit a rate limit, pause the queue and requeue the image.
-            setStatusMessage('API rate limit hit. Pausing queue for 15 seconds...');
-            setIsCoolingDown(true);
-            setImages(prev =>
-              prev.map(img =>
-                img.id === imageToProcess.id
-                  ? { ...img, status: ImageStatus.QUEUED, error: 'Rate limited. Will retry.' }
-                  : img
-              )
-            );
-            setTimeout(() => {
-              setStatusMessage('');
-              setIsCoolingDown(false);
-            }, 15000);
-          } else {
-            // Set status to "Error" for other failures.
-            setImages(prev =>
-              prev.map(img =>
-                img.id === imageToProcess.id
-                  ? {
-                      ...img,
-                      status: ImageStatus.ERROR,
-                      error: error instanceof Error ? error.message : String(error),
-                    }
-                  : img
-              )
-            );
-          }
+        case 'dispatch-blocked': {
+          const { limit, unit } = dailyQuotaRef.current;
+          setIsPaused(true);
+          setStatusMessage(`Paused: today's quota of ${limit} ${unit} is used up. It resets at midnight Pacific time; resume to go over it.`);
+          break;
         }
-      }, delay);
+        case 'drained':
+          setIsProcessing(false);
+          setIsPaused(false);
+          setRateLimitResumeAt(null);
+          clearRetryMessage();
+          break;
+      }
     });
-  }, [
-    isProcessing,
-    isCoolingDown,
-    concurrency,
-    throttleDelay,
-    statusMessage,
-    incrementProcessedTodayCount,
-    // Memoized dependencies:
-    queuedImages,
-    processingCount,
-    errorImagesToRetry,
-    hasProcessedImages,
-    imageMap,
-  ]);
+  }, [queue, incrementProcessedTodayCount, recordUsage]);
   
   const handleDownloadAll = async () => {
     const completedImages = images.filter(
-      (img) => img.status === ImageStatus.COMPLETED && img.editedDataUrl
+      (img) => img.status === ImageStatus.COMPLETED && img.editedBlob
     );
 
     if (completedImages.length === 0) {
@@ -763,19 +1280,21 @@ const App: React.FC = () => {
     try {
       const zip = new JSZip();
       const usedFilenames = new Set<string>();
+      // Records which prompt and model produced each file, since filenames can't hold them.
+      const manifest: { file: string; source: string; inputs?: string[]; prompt: string; model?: string; generation?: GenerationSettings }[] = [];
 
       for (const image of completedImages) {
-        if (!image.editedDataUrl) continue;
+        if (!image.editedBlob) continue;
         
         const timestamp = Date.now();
         const originalName = image.file.name.replace(/\.[^/.]+$/, "");
         
-        let downloadUrl = image.editedDataUrl;
+        let imageBlob = image.editedBlob;
         let extension = image.file.name.split('.').pop() || 'png';
         
         if (enableCompression) {
             try {
-                downloadUrl = await compressImageToPNG(image.editedDataUrl);
+                imageBlob = await compressImageToPNG(image.editedBlob);
                 extension = 'png';
             } catch (error) {
                 console.error(`Failed to compress image ${image.file.name}, adding original to zip.`, error);
@@ -791,21 +1310,23 @@ const App: React.FC = () => {
         }
         
         usedFilenames.add(finalFilename);
-        const base64Data = downloadUrl.split(',')[1];
-        zip.file(finalFilename, base64Data, { base64: true });
+        zip.file(finalFilename, imageBlob);
+        manifest.push({
+          file: finalFilename,
+          source: image.file.name,
+          inputs: image.compositionInputs?.map(input => input.name),
+          prompt: image.prompt || '',
+          model: image.model,
+          generation: image.generation,
+        });
       }
+      zip.file('manifest.json', JSON.stringify(manifest, null, 2));
 
       const zipBlob = await zip.generateAsync({ type: 'blob' }, (metadata) => {
         setZipProgress(metadata.percent);
       });
 
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(zipBlob);
-      link.download = `${zipFilename.trim() || 'nanobanana-edits'}-${Date.now()}.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
+      downloadBlob(zipBlob, `${zipFilename.trim() || 'nanobanana-edits'}-${Date.now()}.zip`);
 
     } catch (error) {
       console.error('Error creating zip file:', error);
@@ -821,18 +1342,24 @@ const App: React.FC = () => {
 
     const failedToRetry = images.filter(img => img.status === ImageStatus.ERROR);
     if (failedToRetry.length === 0) return;
+    if (!confirmOverQuota() || !confirmOverBudget()) return;
 
     setTotalInBatch(failedToRetry.length);
     setStatusMessage('');
     setElapsedTime(0);
+    setRunUsage(emptyUsage);
+    setRunLatencies([]);
 
     setImages(prevImages => 
         prevImages.map(img => 
             img.status === ImageStatus.ERROR 
-            ? { ...img, status: ImageStatus.QUEUED, error: undefined, retried: undefined } 
+            ? { ...img, status: ImageStatus.QUEUED, error: undefined, errorCategory: undefined } 
             : img
         )
     );
+    queue.clear();
+    queue.enqueue(failedToRetry.map(img => img.id));
+    queue.start();
     setIsProcessing(true);
   };
 
@@ -848,7 +1375,7 @@ const App: React.FC = () => {
     setSingleProcessingError(null);
   };
 
-  const handleProcessSingleImage = async (imageId: string, prompt: string, sourceDataUrl: string) => {
+  const handleProcessSingleImage = async (imageId: string, prompt: string, sourceBlob: Blob, model: string, generation: GenerationSettings) => {
     if (!prompt.trim()) {
       alert('Please enter a prompt for the image.');
       return;
@@ -859,6 +1386,9 @@ const App: React.FC = () => {
       setSingleProcessingError("Source image not found.");
       return;
     }
+    if (!confirmOverQuota() || !confirmOverBudget()) {
+      return;
+    }
     
     setIsSingleProcessing(true);
     setSingleProcessingError(null);
@@ -867,23 +1397,42 @@ const App: React.FC = () => {
       setPromptHistory(prev => [prompt, ...prev.slice(0, 9)]);
     }
 
+    const startedAt = Date.now();
     setImages(prev => prev.map(img => 
       img.id === imageId 
-      ? { ...img, status: ImageStatus.PROCESSING, prompt: prompt, error: undefined } 
+      ? {
+          ...img,
+          status: ImageStatus.PROCESSING,
+          prompt: prompt,
+          // Only choices that differ from the run's are kept for later runs, so changing the run's settings still reaches this image.
+          modelOverride: model !== editModel ? model : undefined,
+          generationOverride: isSameGeneration(generation, generationSettings) ? undefined : generation,
+          error: undefined,
+          errorCategory: undefined,
+          queuedAt: startedAt,
+          startedAt,
+          finishedAt: undefined,
+        }
       : img
     ));
     
     try {
-      const base64Data = sourceDataUrl.split(',')[1];
-      if (!base64Data) throw new Error('Invalid source image data URL.');
-
-      const editedData = await editImage(base64Data, imageToProcess.file.type, prompt);
+      const requestedGeneration = limitCandidates(generation, provider.editModels, model);
+      const inputs = (imageToProcess.compositionInputs || []).map(input => input.blob);
+      const references = [...runReferences, ...(imageToProcess.referenceImages || [])].map(reference => reference.blob);
+      const { images: editedBlobs, metadata: responseMetadata } = await provider.edit(sourceBlob, prompt, { model, generation: requestedGeneration, inputs, references, onRequestSent: countImageRequest });
+      const editedBlob = editedBlobs[0];
+      const finishedAt = Date.now();
+      recordUsage(imageId, model, responseMetadata, editedBlobs.length);
+      recordDailyUsage({ latencyMs: finishedAt - startedAt });
 
-      const editedDataUrl = `data:${imageToProcess.file.type};base64,${editedData}`;
       const newHistoryEntry: EditHistory = {
-        dataUrl: editedDataUrl,
+        blob: editedBlob,
         prompt: prompt,
         timestamp: Date.now(),
+        model,
+        generation: requestedGeneration,
+        responseMetadata,
       };
 
       setImages((prev) =>
@@ -892,8 +1441,13 @@ const App: React.FC = () => {
             ? {
                 ...img,
                 status: ImageStatus.COMPLETED,
-                editedDataUrl: editedDataUrl,
+                editedBlob: editedBlob,
                 prompt: prompt, // Update top-level prompt to last used
+                model,
+                generation: requestedGeneration,
+                candidates: editedBlobs.length > 1 ? editedBlobs : undefined,
+                responseMetadata,
+                finishedAt,
                 history: [...(img.history || []), newHistoryEntry],
               }
             : img
@@ -906,9 +1460,13 @@ const App: React.FC = () => {
     } catch (error) {
        const errorMessage = error instanceof Error ? error.message : String(error);
        setSingleProcessingError(errorMessage);
+       recordDailyUsage({ failure: getErrorCategory(error) });
+       if (error instanceof ApiRequestError && error.metadata) {
+         recordUsage(imageId, model, error.metadata, 0);
+       }
        setImages(prev => prev.map(img => 
         img.id === imageId 
-        ? { ...img, status: ImageStatus.ERROR, error: errorMessage } 
+        ? { ...img, status: ImageStatus.ERROR, error: errorMessage, errorCategory: getErrorCategory(error), responseMetadata: error instanceof ApiRequestError ? error.metadata : undefined, finishedAt: Date.now() } 
         : img
       ));
     } finally {
@@ -924,31 +1482,38 @@ const App: React.FC = () => {
           prompt: newPrompt,
           status: ImageStatus.QUEUED,
           error: undefined,
-          retried: undefined,
+          errorCategory: undefined,
+          attemptLog: undefined,
         };
       }
       return img;
     }));
     if (isProcessing) {
         setTotalInBatch(prev => prev + 1);
+        queue.enqueue([imageId]);
     }
   };
 
   const handleUseEditedAsOriginal = useCallback((imageId: string) => {
     if (isProcessingRef.current) {
       setTotalInBatch(prev => prev + 1);
+      queue.enqueue([imageId]);
     }
 
     setImages(prevImages => prevImages.map(img => {
-      if (img.id === imageId && img.editedDataUrl) {
+      if (img.id === imageId && img.editedBlob) {
         return {
           ...img,
-          originalDataUrl: img.editedDataUrl,
-          editedDataUrl: undefined,
+          originalBlob: img.editedBlob,
+          editedBlob: undefined,
+          candidates: undefined,
+          compositionInputs: undefined,
+          isGeneration: false,
           status: ImageStatus.QUEUED,
           prompt: undefined,
           error: undefined,
-          retried: undefined,
+          errorCategory: undefined,
+          attemptLog: undefined,
           history: undefined,
           isRepeat: false,
           showOriginal: true,
@@ -957,10 +1522,10 @@ const App: React.FC = () => {
       }
       return img;
     }));
-  }, []);
+  }, [queue]);
 
   const handleUseAllEditedAsOriginal = () => {
-    const completedImages = images.filter(img => img.status === ImageStatus.COMPLETED && img.editedDataUrl);
+    const completedImages = images.filter(img => img.status === ImageStatus.COMPLETED && img.editedBlob);
     if (completedImages.length === 0) {
       alert('No completed images to use as new originals.');
       return;
@@ -968,18 +1533,23 @@ const App: React.FC = () => {
 
     if (isProcessing) {
       setTotalInBatch(prev => prev + completedImages.length);
+      queue.enqueue(completedImages.map(img => img.id));
     }
     
     setImages(prevImages => prevImages.map(img => {
-      if (img.status === ImageStatus.COMPLETED && img.editedDataUrl) {
+      if (img.status === ImageStatus.COMPLETED && img.editedBlob) {
         return {
           ...img,
-          originalDataUrl: img.editedDataUrl,
-          editedDataUrl: undefined,
+          originalBlob: img.editedBlob,
+          editedBlob: undefined,
+          candidates: undefined,
+          compositionInputs: undefined,
+          isGeneration: false,
           status: ImageStatus.QUEUED,
           prompt: undefined,
           error: undefined,
-          retried: undefined,
+          errorCategory: undefined,
+          attemptLog: undefined,
           history: undefined,
           isRepeat: false,
           showOriginal: true,
@@ -990,11 +1560,28 @@ const App: React.FC = () => {
     }));
   };
 
+  const handlePauseProcessing = () => {
+    if (!isProcessing || isPaused) return;
+    queue.pause();
+    setIsPaused(true);
+    setStatusMessage('Paused. Images already in progress will finish.');
+  };
+
+  const handleResumeProcessing = () => {
+    if (!isProcessing || !isPaused) return;
+    if (!confirmOverQuota() || !confirmOverBudget()) return;
+    setIsPaused(false);
+    setStatusMessage('');
+    queue.resume();
+  };
+
   const handleCancelProcessing = () => {
     if (!isProcessing) return;
 
+    queue.stop();
     setIsProcessing(false);
-    setIsCoolingDown(false);
+    setIsPaused(false);
+    setRateLimitResumeAt(null);
     setStatusMessage('');
 
     setImages(prev => prev.map(img => 
@@ -1054,18 +1641,7 @@ const App: React.FC = () => {
   const handleRandomizePrompts = () => {
     const getRandomItem = (arr: PromptSuggestion[]) => arr[Math.floor(Math.random() * arr.length)];
     
-    const activeSources: PromptSuggestion[][] = [];
-    if (randomizeSources.angle) activeSources.push(promptSuggestions);
-    if (randomizeSources.angle2) activeSources.push(promptSuggestionsAngelView2);
-    if (randomizeSources.angle3) activeSources.push(promptSuggestionsAngelView3);
-    if (randomizeSources.closeup) activeSources.push(promptSuggestionsCloseUp);
-    if (randomizeSources.pose) activeSources.push(promptSuggestionsPose);
-    if (randomizeSources.pose2) activeSources.push(promptSuggestionsPose2);
-    if (randomizeSources.expression) activeSources.push(promptSuggestionsExpression);
-    if (randomizeSources.bodyParts) activeSources.push(promptSuggestionsBodyParts);
-    if (randomizeSources.fullBody) activeSources.push(promptSuggestionsFullBody);
-    if (randomizeSources.textToVideo) activeSources.push(promptSuggestionsTextToVideo);
-    if (randomizeSources.pose3) activeSources.push(promptSuggestionsPose3);
+    const activeSources = activeRandomSources;
 
     if (activeSources.length === 0) {
       alert("Please select at least one suggestion category to randomize from.");
@@ -1107,7 +1683,7 @@ const App: React.FC = () => {
   };
 
   const handleAutoTagImages = async () => {
-    const queuedImages = images.filter(img => img.status === ImageStatus.QUEUED);
+    const queuedImages = images.filter(img => img.status === ImageStatus.QUEUED && !img.isGeneration);
     if (queuedImages.length === 0) {
         alert('No images in the queue to tag.');
         return;
@@ -1122,13 +1698,11 @@ const App: React.FC = () => {
     const tagPromises = queuedImages.map(
       async (imageToTag: ImageFile): Promise<{ id: string; prompt: string; error?: string; }> => {
         try {
-            const base64Data = imageToTag.originalDataUrl.split(',')[1];
-            if (!base64Data) throw new Error('Invalid image data URL.');
-
-            const tagsResponse = await getTagsFromImage(
-                base64Data,
-                imageToTag.file.type,
-                taggingSystemPrompt
+            recordDailyUsage({ taggingCalls: 1 });
+            const tagsResponse = await provider.tag(
+                imageToTag.originalBlob,
+                taggingSystemPrompt,
+                { model: textModel }
             );
 
             const tagsPart = tagsResponse.split('.')[0];
@@ -1180,8 +1754,9 @@ const App: React.FC = () => {
   };
 
   const handleDeleteImage = useCallback((imageId: string) => {
+    queue.remove(imageId);
     setImages(prevImages => prevImages.filter(img => img.id !== imageId));
-  }, []);
+  }, [queue]);
 
   const handleMarkAsAutoTagged = (imageId: string) => {
     setImages(prev => prev.map(img => 
@@ -1198,7 +1773,69 @@ const App: React.FC = () => {
       )
     );
   }, []);
+
+  const handleReferenceImagesChange = useCallback((imageId: string, referenceImages: ReferenceImage[]) => {
+    setImages(prevImages => prevImages.map(img =>
+      img.id === imageId ? { ...img, referenceImages: referenceImages.length > 0 ? referenceImages : undefined } : img
+    ));
+  }, []);
+
+  // Makes another returned candidate the edited image. When the edit came from the
+  // edit modal, its history entry follows so the modal shows the chosen image too.
+  const handleSelectCandidate = useCallback((imageId: string, candidateIndex: number) => {
+    setImages(prevImages => prevImages.map(img => {
+      const candidate = img.candidates?.[candidateIndex];
+      if (img.id !== imageId || !candidate || candidate === img.editedBlob) return img;
+      const history = img.history?.map(entry => entry.blob === img.editedBlob ? { ...entry, blob: candidate } : entry);
+      return { ...img, editedBlob: candidate, history };
+    }));
+  }, []);
   
+  /**
+   * Applies a change to the list order or priorities and lines the queue up with the result.
+   * @param change Must be pure, since it runs on both the rendered list and the latest state.
+   */
+  const rearrangeQueue = useCallback((change: (images: ImageFile[]) => ImageFile[]) => {
+    const queueOrder = getQueueOrder(change(imagesRef.current));
+    queueOrder.forEach(img => queue.setPriority(img.id, img.priority ?? 0));
+    queue.reorder(queueOrder.map(img => img.id));
+    setImages(prevImages => change(prevImages));
+  }, [queue]);
+
+  // Dropping a card takes the target's place; the cards in between shift toward where it came from.
+  const handleReorderQueued = useCallback((draggedId: string, targetId: string) => {
+    rearrangeQueue(images => {
+      const from = images.findIndex(img => img.id === draggedId);
+      const to = images.findIndex(img => img.id === targetId);
+      return moveImageNextTo(images, draggedId, targetId, from < to ? 'after' : 'before');
+    });
+  }, [rearrangeQueue]);
+
+  // Running next takes the highest queued priority too, or a higher priority group would still go first.
+  const handleRunNext = useCallback((imageId: string) => {
+    rearrangeQueue(images => {
+      const queued = images.filter(img => img.status === ImageStatus.QUEUED);
+      if (queued.length === 0) return images;
+      const priority = Math.max(...queued.map(img => img.priority ?? 0));
+      const prioritized = images.map(img => img.id === imageId ? { ...img, priority } : img);
+      return moveImageNextTo(prioritized, imageId, queued[0].id, 'before');
+    });
+  }, [rearrangeQueue]);
+
+  const handleMoveToEnd = useCallback((imageId: string) => {
+    rearrangeQueue(images => {
+      const queued = images.filter(img => img.status === ImageStatus.QUEUED);
+      if (queued.length === 0) return images;
+      const priority = Math.min(...queued.map(img => img.priority ?? 0));
+      const deprioritized = images.map(img => img.id === imageId ? { ...img, priority } : img);
+      return moveImageNextTo(deprioritized, imageId, queued[queued.length - 1].id, 'after');
+    });
+  }, [rearrangeQueue]);
+
+  const handleSetPriority = useCallback((imageId: string, priority: number) => {
+    rearrangeQueue(images => images.map(img => img.id === imageId ? { ...img, priority } : img));
+  }, [rearrangeQueue]);
+
   const handleImageClick = useCallback((url: string, alt: string) => {
     setLightboxImage({ url, alt });
   }, []);
@@ -1210,30 +1847,19 @@ const App: React.FC = () => {
         return;
     }
 
-    let urlToDownload: string | undefined;
-
-    if (source === 'original') {
-        if (image.sourceImageId) {
-            const sourceImage = imagesRef.current.find(i => i.id === image.sourceImageId);
-            urlToDownload = sourceImage?.originalDataUrl;
-        } else {
-            urlToDownload = image.originalDataUrl;
-        }
-    } else {
-        urlToDownload = image.editedDataUrl;
-    }
+    const blobToDownload = source === 'original' ? image.originalBlob : image.editedBlob;
     
-    if (!urlToDownload) {
-        console.error(`Source URL for '${source}' version not available.`);
+    if (!blobToDownload) {
+        console.error(`Image data for '${source}' version not available.`);
         return;
     }
 
-    let downloadUrl = urlToDownload;
-    let extension = image.file.type.split('/')[1] || 'png';
+    let finalBlob = blobToDownload;
+    let extension = blobToDownload.type.split('/')[1] || 'png';
 
     if (enableCompression) {
         try {
-            downloadUrl = await compressImageToPNG(urlToDownload);
+            finalBlob = await compressImageToPNG(blobToDownload);
             extension = 'png';
         } catch (error) {
             console.error("Failed to compress image:", error);
@@ -1241,15 +1867,9 @@ const App: React.FC = () => {
         }
     }
 
-    const link = document.createElement('a');
-    link.href = downloadUrl;
-
     const originalName = image.file.name.replace(/\.[^/.]+$/, "");
-    link.download = `${originalName}-${source}.${extension}`;
-
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const modelSuffix = source === 'edited' && image.model ? `-${image.model}` : '';
+    downloadBlob(finalBlob, `${originalName}-${source}${modelSuffix}.${extension}`);
   }, [enableCompression]);
 
   const formatTime = (totalSeconds: number) => {
@@ -1262,9 +1882,30 @@ const App: React.FC = () => {
   const processingCountDisplay = images.filter(img => img.status === ImageStatus.PROCESSING).length;
   const completedCount = images.filter(img => img.status === ImageStatus.COMPLETED).length;
   const failedCount = images.filter(img => img.status === ImageStatus.ERROR).length;
+  const failedCountsByCategory = images.reduce((counts, img) => {
+    if (img.status === ImageStatus.ERROR) {
+      const category = img.errorCategory ?? 'unknown';
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+    return counts;
+  }, new Map<ErrorCategory, number>());
   const canRandomize = Object.values(randomizeSources).some(v => v);
   const processedInBatch = totalInBatch > 0 ? Math.max(0, totalInBatch - queuedCount - processingCountDisplay) : 0;
-  const { containerClasses, numberClasses } = getCounterStyles(processedTodayCount);
+  // The ETA follows the recent jobs rather than the whole batch, so it adapts when the API speeds up or slows down.
+  const recentLatencies = runLatencies.slice(-ETA_LATENCY_WINDOW);
+  const rollingLatencyMs = recentLatencies.length > 0 ? recentLatencies.reduce((sum, ms) => sum + ms, 0) / recentLatencies.length : null;
+  const etaSeconds = isProcessing && rollingLatencyMs !== null
+    ? Math.round((queuedCount + processingCountDisplay) * (rollingLatencyMs + throttleDelay * 1000) / Math.max(1, effectiveConcurrency) / 1000)
+    : null;
+  const quotaUsedToday = dailyQuota.unit === 'images' ? processedTodayCount : requestsTodayCount;
+  const quotaRemaining = dailyQuota.limit === null ? null : Math.max(0, dailyQuota.limit - quotaUsedToday);
+  // The counter warns against the quota in whichever unit it counts. Without a quota it keeps
+  // its old thresholds for processed images, which match the free tier.
+  const counterValue = dailyQuota.limit !== null ? quotaUsedToday : processedTodayCount;
+  const counterLimit = dailyQuota.limit ?? 100;
+  const counterWarningAt = dailyQuota.limit !== null ? Math.ceil(dailyQuota.limit * dailyQuota.warningPercent / 100) : 70;
+  const { containerClasses, numberClasses } = getCounterStyles(counterValue, counterLimit, counterWarningAt);
+  const requestQuotaActive = dailyQuota.limit !== null && dailyQuota.unit === 'requests';
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 p-4 sm:p-6 lg:p-8">
@@ -1280,7 +1921,49 @@ const App: React.FC = () => {
             Batch edit your images with AI. Upload, describe your edit, and process the queue.
           </p>
           <div className={containerClasses}>
-            IMAGES PROCESSED TODAY: <span className={numberClasses}>{processedTodayCount}</span>
+            IMAGES PROCESSED TODAY: <span className={requestQuotaActive ? 'font-bold text-base' : numberClasses}>{processedTodayCount}</span>
+            {requestQuotaActive && (
+              <span className="ml-3">
+                IMAGE REQUESTS TODAY: <span className={numberClasses}>{requestsTodayCount}</span>
+              </span>
+            )}
+            {quotaRemaining !== null && (
+              <span className="ml-3" title={`Daily quota of ${dailyQuota.limit} ${dailyQuota.unit}, reset at midnight Pacific time`}>
+                QUOTA LEFT: <span className={quotaRemaining === 0 ? 'font-bold text-red-300' : 'font-bold text-gray-300'}>{quotaRemaining} {dailyQuota.unit}</span>
+              </span>
+            )}
+          </div>
+          {(usageToday.requests > 0 || dailyBudget !== null) && (
+            <div
+              className={`mt-1 text-sm font-semibold tracking-wider ${dailyBudget !== null && usageToday.cost >= dailyBudget ? 'text-red-400' : 'text-gray-500'}`}
+              title={`${usageToday.requests} requests, ${usageToday.inputTokens.toLocaleString()} input and ${usageToday.outputTokens.toLocaleString()} output tokens, ${usageToday.images} images`}
+            >
+              EST. SPEND TODAY: <span className="text-gray-300">{formatCost(usageToday.cost)}</span>
+              {dailyBudget !== null && <> / {formatCost(dailyBudget)}</>}
+            </div>
+          )}
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+            <button
+              onClick={() => setIsApiKeySettingsOpen(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 transition-colors"
+              title="Add, validate or switch Gemini API keys"
+            >
+              <KeyIcon className="w-5 h-5 mr-2" />
+              {enabledApiKeys.length > 1
+                ? `API Keys: ${enabledApiKeys.length} in pool`
+                : enabledApiKeys.length === 1 ? `API Key: ${enabledApiKeys[0].label}` : builtInApiKey ? 'API Key: Built-in' : 'Set API Key'}
+            </button>
+            <button
+              onClick={() => setIsUsageDashboardOpen(true)}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-800 border border-gray-700 rounded-lg hover:bg-gray-700 transition-colors"
+              title="Images, failures, latency and spend per day"
+            >
+              <ChartBarIcon className="w-5 h-5 mr-2" />
+              Usage History
+            </button>
+            {!hasUsableApiKey && provider.id === geminiProvider.id && (
+              <span className="text-sm text-yellow-300">No API key configured. Gemini requests will fail until you add one.</span>
+            )}
           </div>
         </header>
 
@@ -1289,6 +1972,65 @@ const App: React.FC = () => {
             <div>
               <label className="text-xl font-semibold text-gray-200 mb-2 block">1. Upload Your Images</label>
               <ImageUploader onImagesSelected={handleImagesSelected} isProcessing={isProcessing} />
+              <button
+                onClick={() => setIsCompositionBuilderOpen(true)}
+                disabled={images.filter(img => !img.isRepeat && !img.isGeneration).length < 2}
+                className="mt-3 flex items-center px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Combine several uploaded images into one edit, e.g. a character into a scene"
+              >
+                <SquaresPlusIcon className="w-5 h-5 mr-2" />
+                Compose Images
+              </button>
+              <details className="mt-3">
+                <summary className="text-sm font-medium text-gray-300 cursor-pointer select-none">
+                  Generate from Text
+                </summary>
+                <div className="mt-2 space-y-2">
+                  <p className="text-xs text-gray-400">
+                    Adds jobs with no source image. The main prompt, randomization and repeat count apply to them like to uploaded images.
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={textToImagePrompt}
+                      onChange={(e) => setTextToImagePrompt(e.target.value)}
+                      placeholder="Optional prompt for these jobs, e.g. a knight in a misty forest"
+                      className="flex-grow p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                      aria-label="Prompt for text-to-image jobs"
+                    />
+                    <input
+                      type="number"
+                      value={textToImageCount}
+                      onChange={(e) => setTextToImageCount(Math.max(1, Math.min(50, Math.floor(Number(e.target.value)))))}
+                      min="1"
+                      max="50"
+                      className="w-20 p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md text-center focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                      aria-label="Number of text-to-image jobs"
+                    />
+                    <button
+                      onClick={handleAddTextToImageJobs}
+                      disabled={!provider.capabilities.textToImage}
+                      className="px-4 py-2 text-sm font-semibold text-white bg-brand-purple rounded-md hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                      title={provider.capabilities.textToImage ? undefined : 'This backend cannot generate images from text'}
+                    >
+                      Add to Queue
+                    </button>
+                  </div>
+                </div>
+              </details>
+              <details className="mt-3" open={runReferences.length > 0}>
+                <summary className="text-sm font-medium text-gray-300 cursor-pointer select-none">
+                  Reference Images{runReferences.length > 0 && ` (${runReferences.length})`}
+                </summary>
+                <div className="mt-2">
+                  <ReferenceImagesPanel
+                    references={runReferences}
+                    onChange={setRunReferences}
+                    disabled={isProcessing}
+                    description="Sent with every image after the image itself, e.g. a character sheet, a style sample or an outfit. Images can add their own in the edit dialog."
+                  />
+                </div>
+              </details>
             </div>
             <div>
               <label className="text-xl font-semibold text-gray-200 mb-2 block">2. Describe Your Edit</label>
@@ -1603,7 +2345,7 @@ const App: React.FC = () => {
                   />
                   <button
                       onClick={handleAutoTagImages}
-                      disabled={isTagging || isProcessing || queuedCount === 0}
+                      disabled={isTagging || isProcessing || queuedCount === 0 || !provider.capabilities.tagging}
                       className="w-full flex items-center justify-center p-4 text-lg font-bold text-white bg-gradient-to-r from-brand-purple to-purple-700 rounded-lg shadow-lg hover:from-purple-600 hover:to-purple-800 transition-all duration-300 transform hover:scale-105 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
                   >
                       <TagIcon className="w-6 h-6 mr-2" />
@@ -1686,13 +2428,92 @@ const App: React.FC = () => {
                  )}
                </div>
                 <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+                 <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <label htmlFor="provider-select" className="text-sm font-medium text-gray-300">Backend</label>
+                    <select
+                      id="provider-select"
+                      value={provider.id}
+                      onChange={(e) => setProviderId(e.target.value)}
+                      disabled={isProcessing}
+                      className="w-full sm:w-auto p-2 text-sm bg-gray-800 border-2 border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue focus:border-transparent transition-colors disabled:opacity-50"
+                      aria-label="Select the image editing backend"
+                    >
+                      {listProviders().map(p => (
+                        <option key={p.id} value={p.id}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                 </div>
+                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="edit-model-select" className="text-sm font-medium text-gray-300 mb-2 block">Edit Model</label>
+                      <select
+                        id="edit-model-select"
+                        value={editModel}
+                        onChange={(e) => setEditModelId(e.target.value)}
+                        disabled={isProcessing}
+                        className="w-full p-2 text-sm bg-gray-800 border-2 border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue focus:border-transparent transition-colors disabled:opacity-50"
+                      >
+                        {provider.editModels.map(m => (
+                          <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="text-model-select" className="text-sm font-medium text-gray-300 mb-2 block">Tagging & Enhance Model</label>
+                      <select
+                        id="text-model-select"
+                        value={textModel}
+                        onChange={(e) => setTextModelId(e.target.value)}
+                        disabled={isProcessing || isTagging}
+                        className="w-full p-2 text-sm bg-gray-800 border-2 border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue focus:border-transparent transition-colors disabled:opacity-50"
+                      >
+                        {provider.textModels.map(m => (
+                          <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                 </div>
+                 <GenerationSettingsFields
+                   settings={generationSettings}
+                   onChange={setGenerationSettings}
+                   disabled={isProcessing}
+                   maxCandidates={getMaxCandidates(provider.editModels, editModel)}
+                   idPrefix="run-generation"
+                 />
+                 <details>
+                   <summary className="text-sm text-gray-300 cursor-pointer select-none">
+                     Daily Quota{quotaRemaining !== null && ` (${quotaRemaining} ${dailyQuota.unit} left)`}
+                   </summary>
+                   <div className="mt-2">
+                     <DailyQuotaSettings quota={dailyQuota} onChange={setDailyQuota} used={quotaUsedToday} />
+                   </div>
+                 </details>
+                 <details>
+                   <summary className="text-sm text-gray-300 cursor-pointer select-none">
+                     Pricing & Daily Budget{dailyBudget !== null && ` (${formatCost(dailyBudget)}/day)`}
+                   </summary>
+                   <div className="mt-2">
+                     <PricingSettings
+                       models={provider.editModels}
+                       prices={priceTable}
+                       onPricesChange={setPriceTable}
+                       dailyBudget={dailyBudget}
+                       onDailyBudgetChange={setDailyBudget}
+                     />
+                   </div>
+                 </details>
+                 {provider.id === mockProvider.id && (
+                   <MockProviderSettings config={mockConfig} onChange={setMockConfig} disabled={isProcessing} />
+                 )}
                  <div className="flex items-center">
                     <input
                       type="checkbox"
                       id="auto-tag-before-processing"
                       checked={autoTagBeforeProcessing}
                       onChange={(e) => setAutoTagBeforeProcessing(e.target.checked)}
-                      disabled={isProcessing}
+                      disabled={isProcessing || !provider.capabilities.tagging}
                       className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
                     />
                     <label htmlFor="auto-tag-before-processing" className="ml-3 block text-sm text-gray-300">
@@ -1747,6 +2568,101 @@ const App: React.FC = () => {
                         aria-label="Delay between requests in seconds"
                       />
                     </div>
+                    <div className="sm:col-span-2 md:col-span-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-300 order-last">
+                      <div className="flex items-center">
+                        <input
+                          id="adaptive-concurrency"
+                          type="checkbox"
+                          checked={adaptiveConcurrency.enabled}
+                          onChange={(e) => setAdaptiveConcurrency(prev => ({ ...prev, enabled: e.target.checked }))}
+                          disabled={isProcessing}
+                          className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
+                        />
+                        <label htmlFor="adaptive-concurrency" className="ml-2" title="Raise concurrency while requests succeed and halve it on rate limits or timeouts">
+                          Adaptive Concurrency
+                        </label>
+                      </div>
+                      {adaptiveConcurrency.enabled && (
+                        <>
+                          <label className="flex items-center gap-2">
+                            Min
+                            <input
+                              type="number"
+                              value={adaptiveConcurrency.min}
+                              onChange={(e) => {
+                                const min = Math.max(1, Math.min(10, Number(e.target.value)));
+                                setAdaptiveConcurrency(prev => ({ ...prev, min, max: Math.max(min, prev.max) }));
+                              }}
+                              min="1"
+                              max="10"
+                              disabled={isProcessing}
+                              className="w-16 p-1 bg-gray-900 border border-gray-700 rounded-md text-center disabled:opacity-50"
+                              aria-label="Minimum adaptive concurrency"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Max
+                            <input
+                              type="number"
+                              value={adaptiveConcurrency.max}
+                              onChange={(e) => {
+                                const max = Math.max(1, Math.min(10, Number(e.target.value)));
+                                setAdaptiveConcurrency(prev => ({ ...prev, max, min: Math.min(max, prev.min) }));
+                              }}
+                              min="1"
+                              max="10"
+                              disabled={isProcessing}
+                              className="w-16 p-1 bg-gray-900 border border-gray-700 rounded-md text-center disabled:opacity-50"
+                              aria-label="Maximum adaptive concurrency"
+                            />
+                          </label>
+                        </>
+                      )}
+                      <span className="text-gray-400" aria-live="polite">
+                        Effective: <span className="font-semibold text-gray-200">{effectiveConcurrency}</span> in flight
+                      </span>
+                    </div>
+                    <div className="sm:col-span-2 md:col-span-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-300 order-last">
+                      <label className="flex items-center gap-2" title="Total attempts per image in a batch, including the first">
+                        Max Attempts
+                        <input
+                          type="number"
+                          value={retryPolicy.maxAttempts}
+                          onChange={(e) => setRetryPolicy(prev => ({ ...prev, maxAttempts: Math.max(1, Math.min(10, Number(e.target.value))) }))}
+                          min="1"
+                          max="10"
+                          disabled={isProcessing}
+                          className="w-16 p-1 bg-gray-900 border border-gray-700 rounded-md text-center disabled:opacity-50"
+                          aria-label="Maximum attempts per image"
+                        />
+                      </label>
+                      <span className="text-gray-400">Retry on:</span>
+                      {errorCategories.map(key => (
+                        <label key={key} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={retryPolicy.retryOn.includes(key)}
+                            onChange={(e) => setRetryPolicy(prev => ({
+                              ...prev,
+                              retryOn: e.target.checked ? [...prev.retryOn, key] : prev.retryOn.filter(kind => kind !== key),
+                            }))}
+                            disabled={isProcessing}
+                            className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
+                          />
+                          {errorCategoryLabels[key]}
+                        </label>
+                      ))}
+                      <label className="flex items-center gap-2" title="Retries of randomized prompts draw new random suggestions">
+                        <input
+                          type="checkbox"
+                          checked={retryPolicy.rerandomizePrompt}
+                          onChange={(e) => setRetryPolicy(prev => ({ ...prev, rerandomizePrompt: e.target.checked }))}
+                          disabled={isProcessing}
+                          className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
+                        />
+                        New Random Prompt on Retry
+                      </label>
+                    </div>
                     <div className="md:col-span-1 space-y-2">
                       {statusMessage && (
                         <div className="flex items-center justify-center text-center p-2 rounded-lg bg-yellow-900/50 text-yellow-300 text-sm">
@@ -1755,6 +2671,16 @@ const App: React.FC = () => {
                         </div>
                       )}
                       {isProcessing ? (
+                        <div className="flex gap-2">
+                        <button
+                          onClick={isPaused ? handleResumeProcessing : handlePauseProcessing}
+                          className="flex-shrink-0 flex items-center justify-center px-4 text-lg font-bold text-white bg-gray-600 rounded-lg shadow-lg hover:bg-gray-500 transition-all duration-300"
+                          style={{minHeight: '64px'}}
+                          title={isPaused ? 'Resume dispatching queued images' : 'Stop dispatching new images and let in-progress ones finish'}
+                          aria-label={isPaused ? 'Resume processing' : 'Pause processing'}
+                        >
+                          {isPaused ? <PlayIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+                        </button>
                         <button
                           onClick={handleCancelProcessing}
                           className="w-full flex items-center justify-center p-4 text-lg font-bold text-white bg-gradient-to-r from-red-500 to-orange-500 rounded-lg shadow-lg hover:from-red-600 hover:to-orange-600 transition-all duration-300 transform hover:scale-105"
@@ -1764,6 +2690,7 @@ const App: React.FC = () => {
                           <XCircleIcon className="w-6 h-6 mr-2" />
                           {`Cancel (${processedInBatch}/${totalInBatch})`}
                         </button>
+                        </div>
                       ) : (
                         <button
                           onClick={startProcessing}
@@ -1872,6 +2799,12 @@ const App: React.FC = () => {
               <span className="text-brand-blue"><b>Processing:</b> {processingCountDisplay}</span>
               <span className="text-green-400"><b>Completed:</b> {completedCount}</span>
               <span className="text-red-400"><b>Failed:</b> {failedCount}</span>
+              {failedCount > 0 && (
+                <span className="text-red-300/80" title="Failed images by error category">
+                  ({[...failedCountsByCategory].map(([category, count]) => `${errorCategoryLabels[category]}: ${count}`).join(', ')})
+                </span>
+              )}
+              {isRestoring && <span className="text-gray-500 animate-pulse">Restoring saved images...</span>}
               {(isProcessing || elapsedTime > 0) && (
                 <span className="flex items-center text-gray-300">
                   <ClockIcon className="w-4 h-4 mr-1.5" />
@@ -1884,16 +2817,51 @@ const App: React.FC = () => {
                   <b>Sec/Img:</b><span className="ml-1 font-mono">{(elapsedTime / processedInBatch).toFixed(1)}s</span>
                 </span>
               )}
+              {etaSeconds !== null && (
+                <span
+                  className="flex items-center text-gray-300"
+                  title={`Remaining images × (average of the last ${recentLatencies.length} job(s), ${(rollingLatencyMs! / 1000).toFixed(1)}s, plus the throttle delay) ÷ ${effectiveConcurrency} concurrent`}
+                >
+                  <ClockIcon className="w-4 h-4 mr-1.5" />
+                  <b>ETA:</b><span className="ml-1 font-mono">{formatTime(etaSeconds)}</span>
+                </span>
+              )}
+              {runUsage.requests > 0 && (
+                <span
+                  className="text-gray-300"
+                  title={`${runUsage.requests} requests and ${runUsage.images} images in this batch, estimated from the price table`}
+                >
+                  <b>Tokens:</b> <span className="font-mono">{runUsage.inputTokens.toLocaleString()} in / {runUsage.outputTokens.toLocaleString()} out</span>
+                  <b className="ml-3">Est. Cost:</b> <span className="font-mono">{formatCost(runUsage.cost)}</span>
+                </span>
+              )}
             </div>
 
+            {runLatencies.length > 0 && (
+              <details className="mb-4 text-sm text-gray-400">
+                <summary className="cursor-pointer select-none hover:text-gray-200">
+                  Latency of this batch ({runLatencies.length} image{runLatencies.length === 1 ? '' : 's'}, concurrency {effectiveConcurrency}, throttle {throttleDelay}s)
+                </summary>
+                <div className="mt-2 max-w-xl">
+                  <LatencyHistogram latencies={runLatencies} />
+                </div>
+              </details>
+            )}
+
             <ImageList 
               images={images} 
+              queuePositions={queuePositions}
               onEdit={handleOpenEditModal} 
               onUseAsOriginal={handleUseEditedAsOriginal}
               onImageClick={handleImageClick}
               onDownload={handleDownloadSingle}
               onDelete={handleDeleteImage}
               onShowOriginal={handleShowOriginal}
+              onSelectCandidate={handleSelectCandidate}
+              onReorder={handleReorderQueued}
+              onRunNext={handleRunNext}
+              onMoveToEnd={handleMoveToEnd}
+              onSetPriority={handleSetPriority}
             />
           </div>
         </main>
@@ -1910,6 +2878,31 @@ const App: React.FC = () => {
           error={singleProcessingError}
           taggingSystemPrompt={taggingSystemPrompt}
           onMarkAsAutoTagged={handleMarkAsAutoTagged}
+          provider={provider}
+          defaultEditModel={editModel}
+          defaultGenerationSettings={generationSettings}
+          textModel={textModel}
+          runReferenceCount={runReferences.length}
+          onReferenceImagesChange={handleReferenceImagesChange}
+        />
+      )}
+      {isCompositionBuilderOpen && (
+        <CompositionBuilder
+          images={images.filter(img => !img.isRepeat && !img.isGeneration)}
+          onCreate={handleCreateComposition}
+          onClose={() => setIsCompositionBuilderOpen(false)}
+        />
+      )}
+      {isUsageDashboardOpen && (
+        <UsageDashboard onClose={() => setIsUsageDashboardOpen(false)} />
+      )}
+      {isApiKeySettingsOpen && (
+        <ApiKeySettings
+          keys={storedApiKeys}
+          usageToday={keyUsageToday}
+          builtInKeyId={BUILT_IN_KEY_ID}
+          onKeysChange={setStoredApiKeys}
+          onClose={() => setIsApiKeySettingsOpen(false)}
         />
       )}
       {lightboxImage && (
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { StoredApiKey } from '../types';
+import { validateApiKey, builtInApiKey } from '../services/geminiService';
+import { getKeyCooldownUntil } from '../services/apiKeyPool';
+import { KeyIcon, CheckCircleIcon, ExclamationTriangleIcon, TrashIcon, XCircleIcon } from './Icons';
+
+interface ApiKeySettingsProps {
+  keys: StoredApiKey[];
+  /** Requests sent today, by key id. */
+  usageToday: Record<string, number>;
+  /** The id the built-in key is tracked under. */
+  builtInKeyId: string;
+  onKeysChange: (keys: StoredApiKey[]) => void;
+  onClose: () => void;
+}
+
+type ValidationState = { status: 'checking' } | { status: 'valid' } | { status: 'invalid'; message: string };
+
+/**
+ * Shows only the start and end of a key so it can be recognized without being exposed.
+ */
+export const maskApiKey = (key: string): string => {
+  return key.length <= 10 ? '••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
+};
+
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ keys, usageToday, builtInKeyId, onKeysChange, onClose }) => {
+  const [newLabel, setNewLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<Record<string, ValidationState>>({});
+  // Re-renders every second so key cooldowns count down.
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleAddKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = newKey.trim();
+    if (!key) return;
+    if (keys.some(k => k.key === key)) {
+      setAddError('This key is already saved.');
+      return;
+    }
+
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      await validateApiKey(key);
+      const storedKey: StoredApiKey = {
+        id: `key-${Date.now()}-${Math.random()}`,
+        label: newLabel.trim() || `Key ${keys.length + 1}`,
+        key,
+        addedAt: Date.now(),
+        enabled: true,
+      };
+      onKeysChange([...keys, storedKey]);
+      setValidation(prev => ({ ...prev, [storedKey.id]: { status: 'valid' } }));
+      setNewLabel('');
+      setNewKey('');
+    } catch (error) {
+      setAddError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleValidate = async (storedKey: StoredApiKey) => {
+    setValidation(prev => ({ ...prev, [storedKey.id]: { status: 'checking' } }));
+    try {
+      await validateApiKey(storedKey.key);
+      setValidation(prev => ({ ...prev, [storedKey.id]: { status: 'valid' } }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setValidation(prev => ({ ...prev, [storedKey.id]: { status: 'invalid', message } }));
+    }
+  };
+
+  const handleDelete = (storedKey: StoredApiKey) => {
+    if (!window.confirm(`Remove the key "${storedKey.label}" from this browser?`)) return;
+    onKeysChange(keys.filter(k => k.id !== storedKey.id));
+  };
+
+  const handleToggleEnabled = (storedKey: StoredApiKey) => {
+    onKeysChange(keys.map(k => k.id === storedKey.id ? { ...k, enabled: !k.enabled } : k));
+  };
+
+  const renderKeyStatus = (keyId: string) => {
+    const cooldownUntil = getKeyCooldownUntil(keyId);
+    return (
+      <span className="block text-xs text-gray-500">
+        {usageToday[keyId] ?? 0} requests today
+        {cooldownUntil !== undefined && (
+          <span className="ml-2 text-yellow-400">Cooling down ({Math.max(0, Math.ceil((cooldownUntil - now) / 1000))}s)</span>
+        )}
+      </span>
+    );
+  };
+
+  const renderValidation = (keyId: string) => {
+    const state = validation[keyId];
+    if (!state) return null;
+    switch (state.status) {
+      case 'checking':
+        return <span className="text-xs text-gray-400 animate-pulse">Checking...</span>;
+      case 'valid':
+        return <span className="flex items-center text-xs text-green-400"><CheckCircleIcon className="w-4 h-4 mr-1" />Valid</span>;
+      case 'invalid':
+        return <span className="flex items-center text-xs text-red-400" title={state.message}><ExclamationTriangleIcon className="w-4 h-4 mr-1" />Invalid</span>;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="api-key-settings-title"
+    >
+      <div className="relative w-full max-w-lg bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute -top-4 -right-4 text-white bg-gray-800 rounded-full hover:bg-red-600 transition-colors"
+          aria-label="Close API key settings"
+        >
+          <XCircleIcon className="w-10 h-10" />
+        </button>
+        <div className="flex items-center space-x-2">
+          <KeyIcon className="w-6 h-6 text-brand-purple" />
+          <h2 id="api-key-settings-title" className="text-xl font-semibold text-gray-200">API Key Settings</h2>
+        </div>
+        <p className="text-sm text-gray-400">
+          Keys are stored only in this browser and sent only to the Gemini API.
+          Requests rotate across every enabled key, and a rate-limited key rests while the others keep working.
+        </p>
+
+        <div className="space-y-2">
+          {builtInApiKey && (
+            <div className={`p-3 rounded-lg bg-gray-900 border border-gray-700 ${keys.some(k => k.enabled) ? 'opacity-50' : ''}`}>
+              <span className="block text-sm text-gray-300">Built-in key <span className="text-gray-500">(used when no key below is enabled)</span></span>
+              {renderKeyStatus(builtInKeyId)}
+            </div>
+          )}
+          {keys.map(storedKey => (
+            <div key={storedKey.id} className="flex items-center gap-3 p-3 rounded-lg bg-gray-900 border border-gray-700">
+              <input
+                type="checkbox"
+                id={`api-key-${storedKey.id}`}
+                checked={storedKey.enabled}
+                onChange={() => handleToggleEnabled(storedKey)}
+                title="Use this key for requests"
+                className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
+              />
+              <label htmlFor={`api-key-${storedKey.id}`} className="flex-grow min-w-0 cursor-pointer">
+                <span className="block text-sm text-gray-200 truncate">{storedKey.label}</span>
+                <span className="block text-xs font-mono text-gray-500">{maskApiKey(storedKey.key)}</span>
+                {renderKeyStatus(storedKey.id)}
+              </label>
+              {renderValidation(storedKey.id)}
+              <button
+                onClick={() => handleValidate(storedKey)}
+                disabled={validation[storedKey.id]?.status === 'checking'}
+                className="px-2 py-1 text-xs text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+              >
+                Validate
+              </button>
+              <button
+                onClick={() => handleDelete(storedKey)}
+                title="Remove this key"
+                className="p-1 rounded-full text-gray-500 hover:text-red-500 hover:bg-gray-700/50 transition-colors"
+                aria-label={`Remove key ${storedKey.label}`}
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+          {keys.length === 0 && !builtInApiKey && (
+            <p className="text-sm text-yellow-300">No API key yet. Add one below to use the Gemini backend.</p>
+          )}
+        </div>
+
+        <form onSubmit={handleAddKey} className="space-y-3 pt-4 border-t border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-300">Add a Key</h3>
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Label (optional)"
+            className="w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue"
+          />
+          <input
+            type="password"
+            value={newKey}
+            onChange={(e) => { setNewKey(e.target.value); setAddError(null); }}
+            placeholder="Gemini API key"
+            autoComplete="off"
+            className="w-full p-2 text-sm font-mono bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue"
+            aria-label="Gemini API key"
+          />
+          {addError && <p className="text-xs text-red-400 break-words">{addError}</p>}
+          <button
+            type="submit"
+            disabled={isAdding || !newKey.trim()}
+            className="w-full py-2 text-sm font-bold text-white bg-brand-purple rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isAdding ? 'Validating...' : 'Validate & Save'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
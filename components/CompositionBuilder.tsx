@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ImageFile } from '../types';
+import { getObjectUrl } from '../services/imageBlobs';
+import { SquaresPlusIcon, XCircleIcon } from './Icons';
+
+interface CompositionBuilderProps {
+  /** The uploaded images that can be combined. */
+  images: ImageFile[];
+  onCreate: (inputIds: string[], prompt: string) => void;
+  onClose: () => void;
+}
+
+const CompositionBuilder: React.FC<CompositionBuilderProps> = ({ images, onCreate, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const imageMap = new Map(images.map(img => [img.id, img]));
+  const selectedImages = selectedIds.map(id => imageMap.get(id)).filter((img): img is ImageFile => !!img);
+
+  const handleToggle = (imageId: string) => {
+    setSelectedIds(prev => prev.includes(imageId) ? prev.filter(id => id !== imageId) : [...prev, imageId]);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setSelectedIds(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedImages.length < 2 || !prompt.trim()) return;
+    onCreate(selectedImages.map(img => img.id), prompt.trim());
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="composition-builder-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute -top-4 -right-4 text-white bg-gray-800 rounded-full hover:bg-red-600 transition-colors"
+          aria-label="Close composition builder"
+        >
+          <XCircleIcon className="w-10 h-10" />
+        </button>
+        <div className="flex items-center space-x-2">
+          <SquaresPlusIcon className="w-6 h-6 text-brand-purple" />
+          <h2 id="composition-builder-title" className="text-xl font-semibold text-gray-200">Compose Images</h2>
+        </div>
+        <p className="text-sm text-gray-400">
+          Pick two or more images in the order the prompt refers to them, e.g. the character first and the scene second.
+          The job is added to the queue like any other image.
+        </p>
+
+        <div className="overflow-y-auto min-h-0 grid grid-cols-4 sm:grid-cols-6 gap-2 p-1">
+          {images.map(img => {
+            const position = selectedIds.indexOf(img.id);
+            return (
+              <button
+                type="button"
+                key={img.id}
+                onClick={() => handleToggle(img.id)}
+                className={`relative aspect-square rounded-md overflow-hidden border-2 transition-colors ${position >= 0 ? 'border-brand-blue' : 'border-transparent hover:border-gray-500'}`}
+                title={img.file.name}
+                aria-pressed={position >= 0}
+              >
+                <img src={getObjectUrl(img.originalBlob)} alt={img.file.name} className="w-full h-full object-cover bg-gray-900" />
+                {position >= 0 && (
+                  <span className="absolute top-1 left-1 w-6 h-6 flex items-center justify-center rounded-full bg-brand-blue text-white text-xs font-bold">
+                    {position + 1}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {selectedImages.length > 0 && (
+          <ol className="flex flex-wrap gap-2 text-xs text-gray-300">
+            {selectedImages.map((img, index) => (
+              <li key={img.id} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-md bg-gray-900 border border-gray-700">
+                <span className="font-semibold text-gray-400">{index + 1}.</span>
+                <span className="max-w-[8rem] truncate" title={img.file.name}>{img.file.name}</span>
+                <button type="button" onClick={() => handleMove(index, -1)} disabled={index === 0} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Move ${img.file.name} earlier`}>←</button>
+                <button type="button" onClick={() => handleMove(index, 1)} disabled={index === selectedImages.length - 1} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={`Move ${img.file.name} later`}>→</button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="e.g., put the character from image 1 into the scene from image 2"
+          rows={3}
+          className="w-full p-3 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-blue focus:border-transparent transition-colors"
+          aria-label="Composition prompt"
+        />
+        <button
+          type="submit"
+          disabled={selectedImages.length < 2 || !prompt.trim()}
+          className="w-full py-2 text-sm font-bold text-white bg-brand-purple rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Add Composition to Queue
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CompositionBuilder;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { DailyQuota, QuotaUnit } from '../types';
+
+interface DailyQuotaSettingsProps {
+  quota: DailyQuota;
+  onChange: (quota: DailyQuota) => void;
+  /** How much of the quota today's work has used, in the quota's unit. */
+  used: number;
+}
+
+const inputClassName = "w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue";
+
+const DailyQuotaSettings: React.FC<DailyQuotaSettingsProps> = ({ quota, onChange, used }) => {
+  const { limit } = quota;
+  const warningAt = limit === null ? null : Math.ceil(limit * quota.warningPercent / 100);
+  const remaining = limit === null ? null : Math.max(0, limit - used);
+  const barColor = limit !== null && used >= limit
+    ? 'bg-red-500'
+    : warningAt !== null && used >= warningAt ? 'bg-orange-500' : 'bg-brand-blue';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="daily-quota-limit" className="text-xs font-medium text-gray-300 mb-1 block">Daily Limit</label>
+          <input
+            id="daily-quota-limit"
+            type="number"
+            value={limit ?? ''}
+            onChange={(e) => onChange({ ...quota, limit: e.target.value.trim() === '' ? null : Math.max(1, Math.floor(Number(e.target.value))) })}
+            min="1"
+            placeholder="No limit"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="daily-quota-unit" className="text-xs font-medium text-gray-300 mb-1 block">Counts</label>
+          <select
+            id="daily-quota-unit"
+            value={quota.unit}
+            onChange={(e) => onChange({ ...quota, unit: e.target.value as QuotaUnit })}
+            className={inputClassName}
+          >
+            <option value="images">Processed Images</option>
+            <option value="requests">Image Requests Sent</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="daily-quota-warning" className="text-xs font-medium text-gray-300 mb-1 block">Warn From (%)</label>
+          <input
+            id="daily-quota-warning"
+            type="number"
+            value={quota.warningPercent}
+            onChange={(e) => onChange({ ...quota, warningPercent: Math.min(100, Math.max(1, Number(e.target.value))) })}
+            min="1"
+            max="100"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {limit !== null ? (
+        <div>
+          <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+            <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(100, used / limit * 100)}%` }} />
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            {used} of {limit} {quota.unit} used today, <span className="font-semibold text-gray-200">{remaining} remaining</span>.
+            {' '}The queue pauses before going over. Resets at midnight Pacific time.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">{used} {quota.unit} today. Set a limit to have the queue stop before going over it.</p>
+      )}
+    </div>
+  );
+};
+
+export default DailyQuotaSettings;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { GenerationSettings, SafetyThreshold } from '../types';
+
+interface GenerationSettingsFieldsProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  disabled: boolean;
+  /** The most candidates the selected model can return per request. */
+  maxCandidates: number;
+  /** Prefixes the input ids, so the fields can appear in the controls and the edit modal at once. */
+  idPrefix: string;
+}
+
+const safetyThresholdOptions: { key: SafetyThreshold; label: string }[] = [
+  { key: 'default', label: 'API Default' },
+  { key: 'blockNone', label: 'Block None' },
+  { key: 'blockOnlyHigh', label: 'Block Only High' },
+  { key: 'blockMediumAndAbove', label: 'Block Medium & Above' },
+  { key: 'blockLowAndAbove', label: 'Block Low & Above' },
+];
+
+const inputClassName = "w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50";
+
+/**
+ * Parses an optional number field, treating an empty input as unset.
+ */
+const parseOptionalNumber = (value: string): number | undefined => {
+  return value.trim() === '' ? undefined : Number(value);
+};
+
+const GenerationSettingsFields: React.FC<GenerationSettingsFieldsProps> = ({ settings, onChange, disabled, maxCandidates, idPrefix }) => {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      <div>
+        <label htmlFor={`${idPrefix}-timeout`} className="text-xs font-medium text-gray-300 mb-1 block">Timeout (s)</label>
+        <input
+          id={`${idPrefix}-timeout`}
+          type="number"
+          value={settings.timeoutSeconds}
+          onChange={(e) => onChange({ ...settings, timeoutSeconds: Math.max(5, Number(e.target.value)) })}
+          min="5"
+          step="5"
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-temperature`} className="text-xs font-medium text-gray-300 mb-1 block">Temperature</label>
+        <input
+          id={`${idPrefix}-temperature`}
+          type="number"
+          value={settings.temperature ?? ''}
+          onChange={(e) => {
+            const temperature = parseOptionalNumber(e.target.value);
+            onChange({ ...settings, temperature: temperature === undefined ? undefined : Math.min(2, Math.max(0, temperature)) });
+          }}
+          min="0"
+          max="2"
+          step="0.1"
+          placeholder="Default"
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-seed`} className="text-xs font-medium text-gray-300 mb-1 block">Seed</label>
+        <input
+          id={`${idPrefix}-seed`}
+          type="number"
+          value={settings.seed ?? ''}
+          onChange={(e) => {
+            const seed = parseOptionalNumber(e.target.value);
+            onChange({ ...settings, seed: seed === undefined ? undefined : Math.floor(seed) });
+          }}
+          placeholder="Random"
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-candidates`} className="text-xs font-medium text-gray-300 mb-1 block">Candidates</label>
+        <input
+          id={`${idPrefix}-candidates`}
+          type="number"
+          value={Math.min(settings.candidateCount, maxCandidates)}
+          onChange={(e) => onChange({ ...settings, candidateCount: Math.min(maxCandidates, Math.max(1, Math.floor(Number(e.target.value)))) })}
+          min="1"
+          max={maxCandidates}
+          disabled={disabled || maxCandidates <= 1}
+          title={maxCandidates <= 1 ? 'This model returns one image per request' : undefined}
+          className={inputClassName}
+        />
+      </div>
+      <div className="col-span-2 sm:col-span-1">
+        <label htmlFor={`${idPrefix}-safety`} className="text-xs font-medium text-gray-300 mb-1 block">Safety Filter</label>
+        <select
+          id={`${idPrefix}-safety`}
+          value={settings.safetyThreshold}
+          onChange={(e) => onChange({ ...settings, safetyThreshold: e.target.value as SafetyThreshold })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {safetyThresholdOptions.map(option => (
+            <option key={option.key} value={option.key}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsFields;
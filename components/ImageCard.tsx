@@ -1,19 +1,34 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ImageFile, ImageStatus } from '../types';
+import { getObjectUrl } from '../services/imageBlobs';
+import { errorCategoryLabels } from '../services/apiErrors';
+import { formatCost } from '../services/usage';
+import ResponseMetadataView from './ResponseMetadataView';
 import { ClockIcon, CheckCircleIcon, ExclamationTriangleIcon, SparklesIcon, EditIcon, ReplaceIcon, DownloadIcon, TrashIcon, EyeIcon } from './Icons';
 
 interface ImageCardProps {
   image: ImageFile;
-  displayOriginalDataUrl: string;
+  /** The image's place in the dispatch order while it is queued, starting at 1. */
+  queuePosition?: number;
   onEdit: (imageId: string, source: 'original' | 'edited') => void;
   onUseAsOriginal: (imageId: string) => void;
   onImageClick: (url: string, alt: string) => void;
   onDownload: (imageId: string, source: 'original' | 'edited') => void;
   onDelete: (imageId: string) => void;
   onShowOriginal: (imageId: string) => void;
+  onSelectCandidate: (imageId: string, candidateIndex: number) => void;
+  onRunNext: (imageId: string) => void;
+  onMoveToEnd: (imageId: string) => void;
+  onSetPriority: (imageId: string, priority: number) => void;
 }
 
+const priorityOptions = [
+  { value: 1, label: 'High' },
+  { value: 0, label: 'Normal' },
+  { value: -1, label: 'Low' },
+];
+
 const StatusIndicator: React.FC<{ status: ImageStatus }> = ({ status }) => {
   switch (status) {
     case ImageStatus.QUEUED:
@@ -49,7 +64,42 @@ const StatusIndicator: React.FC<{ status: ImageStatus }> = ({ status }) => {
   }
 };
 
-const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, onEdit, onUseAsOriginal, onImageClick, onDownload, onDelete, onShowOriginal }) => {
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, ms) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+/**
+ * How long the latest attempt took, or has taken so far while it runs. Ticks on its own so
+ * the rest of the card doesn't re-render every second.
+ */
+const JobDuration: React.FC<{ image: ImageFile }> = ({ image }) => {
+  const { status, queuedAt, startedAt, finishedAt } = image;
+  const isRunning = status === ImageStatus.PROCESSING;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isRunning]);
+
+  if (startedAt === undefined || (!isRunning && finishedAt === undefined)) return null;
+  const duration = (isRunning ? now : finishedAt!) - startedAt;
+  const waited = queuedAt !== undefined ? startedAt - queuedAt : undefined;
+
+  return (
+    <span
+      className="text-xs text-gray-500 font-mono tabular-nums"
+      title={`Started ${new Date(startedAt).toLocaleTimeString()}${waited !== undefined ? ` after ${formatDuration(waited)} in the queue` : ''}${finishedAt !== undefined && !isRunning ? `, finished ${new Date(finishedAt).toLocaleTimeString()}` : ''}`}
+    >
+      {formatDuration(duration)}
+    </span>
+  );
+};
+
+const ImageCard: React.FC<ImageCardProps> = ({ image, queuePosition, onEdit, onUseAsOriginal, onImageClick, onDownload, onDelete, onShowOriginal, onSelectCandidate, onRunNext, onMoveToEnd, onSetPriority }) => {
   const getBorderColor = () => {
     switch (image.status) {
       case ImageStatus.QUEUED: return 'border-yellow-500/50';
@@ -82,7 +132,7 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
 
   const handleDownloadClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (image.editedDataUrl) {
+    if (image.editedBlob) {
       onDownload(image.id, 'edited');
     }
   };
@@ -97,6 +147,11 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
     onShowOriginal(image.id);
   };
 
+  // Object URLs are created lazily, so hidden repeat originals never allocate one.
+  const showOriginalImage = !image.isGeneration && (!image.isRepeat || image.showOriginal);
+  const originalUrl = showOriginalImage ? getObjectUrl(image.originalBlob) : '';
+  const editedUrl = image.editedBlob ? getObjectUrl(image.editedBlob) : '';
+
   return (
     <div className={`bg-gray-800 rounded-lg overflow-hidden shadow-lg border-2 ${getBorderColor()} transition-all duration-300`}>
       <div className="p-4">
@@ -104,10 +159,10 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
           <p className="text-sm text-gray-400 truncate flex-grow" title={image.file.name}>{image.file.name}</p>
           <div className="flex items-center space-x-2 flex-shrink-0">
             <StatusIndicator status={image.status} />
+            <JobDuration image={image} />
             <button
                 onClick={handleDeleteClick}
-                title="Delete this image"
-                disabled={image.status === ImageStatus.PROCESSING}
+                title={image.status === ImageStatus.PROCESSING ? "Cancel and delete this image" : "Delete this image"}
                 className="p-1 rounded-full text-gray-500 hover:text-red-500 hover:bg-gray-700/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 aria-label="Delete image"
             >
@@ -115,11 +170,96 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
             </button>
           </div>
         </div>
+        {image.status === ImageStatus.QUEUED && (
+          <div className="flex items-center gap-2 mb-3 text-xs text-gray-400" onClick={(e) => e.stopPropagation()}>
+            {queuePosition !== undefined && (
+              <span className="font-semibold text-yellow-400" title="Place in the queue. Drag queued cards to reorder them.">#{queuePosition}</span>
+            )}
+            <select
+              value={image.priority ?? 0}
+              onChange={(e) => onSetPriority(image.id, Number(e.target.value))}
+              className="p-0.5 bg-gray-900 border border-gray-700 rounded text-gray-300 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+              aria-label="Priority"
+              title="Higher priority images run before lower ones, whatever their place in the list"
+            >
+              {priorityOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRunNext(image.id)}
+              disabled={queuePosition === 1}
+              className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Dispatch this image before every other queued image"
+            >
+              Run Next
+            </button>
+            <button
+              onClick={() => onMoveToEnd(image.id)}
+              className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+              title="Dispatch this image after every other queued image"
+            >
+              Move to End
+            </button>
+          </div>
+        )}
         {image.prompt && <p className="text-xs text-brand-purple mb-3 italic truncate" title={image.prompt}>Prompt: "{image.prompt}"</p>}
+        {image.model && image.status === ImageStatus.COMPLETED && (
+          <p className="text-xs text-gray-500 -mt-2 mb-3 font-mono truncate">
+            <span title="Model that produced this edit">{image.model}</span>
+            {image.usage && image.usage.cost > 0 && (
+              <span
+                className="ml-2 text-gray-400"
+                title={`Estimated cost of ${image.usage.requests} request(s): ${image.usage.inputTokens.toLocaleString()} input and ${image.usage.outputTokens.toLocaleString()} output tokens`}
+              >
+                ~{formatCost(image.usage.cost)}
+              </span>
+            )}
+          </p>
+        )}
+        {image.compositionInputs && image.compositionInputs.length > 0 && (
+          <div className="flex items-center gap-1.5 mb-3" title="Composition job: the original is combined with these images, in order">
+            <span className="text-xs text-gray-400 mr-1">Composed with</span>
+            {image.compositionInputs.map((input, index) => (
+              <img
+                key={input.id + '-' + index}
+                src={getObjectUrl(input.blob)}
+                alt={`Input ${index + 2} - ${input.name}`}
+                title={`${index + 2}. ${input.name}`}
+                className="w-8 h-8 rounded object-cover bg-gray-900 border border-gray-700"
+              />
+            ))}
+          </div>
+        )}
+        {image.responseMetadata && (image.status === ImageStatus.COMPLETED || image.status === ImageStatus.ERROR) && (
+          <ResponseMetadataView metadata={image.responseMetadata} className="mb-3" />
+        )}
+        {image.attemptLog && image.attemptLog.length > 1 && (
+          <details className="text-xs text-gray-400 mb-3" onClick={(e) => e.stopPropagation()}>
+            <summary className="cursor-pointer hover:text-gray-200">{image.attemptLog.length} attempts</summary>
+            <ol className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+              {image.attemptLog.map((attempt, index) => (
+                <li key={attempt.timestamp + '-' + index} className="border-l-2 border-gray-700 pl-2">
+                  <span className="text-gray-500">#{index + 1} {new Date(attempt.timestamp).toLocaleTimeString()}</span>
+                  <p className="italic truncate" title={attempt.prompt}>"{attempt.prompt}"</p>
+                  {attempt.error && <p className="text-red-400 break-words">{attempt.error}</p>}
+                </li>
+              ))}
+            </ol>
+          </details>
+        )}
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-px bg-gray-700">
         <div className="relative group">
-          {image.isRepeat && !image.showOriginal ? (
+          {image.isGeneration ? (
+            <div className="bg-gray-900 flex items-center justify-center min-h-[150px] w-full h-full">
+              <div className="p-4 text-center">
+                <SparklesIcon className="w-8 h-8 mx-auto text-brand-purple" />
+                <p className="text-sm text-gray-400 mt-2">Text to Image</p>
+                <p className="text-xs text-gray-500">(No source image)</p>
+              </div>
+            </div>
+          ) : !showOriginalImage ? (
             <div className="bg-gray-900 flex items-center justify-center min-h-[150px] w-full h-full">
                 <div className="p-4 text-center animate-fade-in">
                     <button
@@ -135,31 +275,33 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
            ) : (
              <>
                 <img
-                    src={displayOriginalDataUrl}
+                    src={originalUrl}
                     alt={`Original - ${image.file.name}`}
                     className="w-full h-auto object-cover cursor-pointer"
-                    onClick={() => onImageClick(displayOriginalDataUrl, `Original - ${image.file.name}`)}
+                    onClick={() => onImageClick(originalUrl, `Original - ${image.file.name}`)}
                 />
                 <div className="absolute top-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded">Original</div>
             </>
            )}
-           <div className="absolute top-2 right-2 flex items-center space-x-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
-             <button onClick={handleDownloadOriginalClick} title="Download original image" className="p-1.5 rounded-full bg-black/50 text-white hover:bg-green-500">
-                <DownloadIcon className="w-5 h-5" />
-             </button>
-            <button onClick={handleEditOriginalClick} title="Edit this image" className="p-1.5 rounded-full bg-black/50 text-white hover:bg-brand-blue">
-              <EditIcon className="w-5 h-5" />
-            </button>
-          </div>
+           {!image.isGeneration && (
+             <div className="absolute top-2 right-2 flex items-center space-x-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+               <button onClick={handleDownloadOriginalClick} title="Download original image" className="p-1.5 rounded-full bg-black/50 text-white hover:bg-green-500">
+                  <DownloadIcon className="w-5 h-5" />
+               </button>
+              <button onClick={handleEditOriginalClick} title="Edit this image" className="p-1.5 rounded-full bg-black/50 text-white hover:bg-brand-blue">
+                <EditIcon className="w-5 h-5" />
+              </button>
+            </div>
+           )}
         </div>
         <div className="relative bg-gray-900 flex items-center justify-center min-h-[150px] group">
-          {image.status === ImageStatus.COMPLETED && image.editedDataUrl ? (
+          {image.status === ImageStatus.COMPLETED && editedUrl ? (
             <>
               <img 
-                src={image.editedDataUrl} 
+                src={editedUrl} 
                 alt={`Edited - ${image.file.name}`} 
                 className="w-full h-auto object-cover cursor-pointer" 
-                onClick={() => onImageClick(image.editedDataUrl!, `Edited - ${image.file.name}`)}
+                onClick={() => onImageClick(editedUrl, `Edited - ${image.file.name}`)}
               />
               <div className="absolute top-2 left-2 bg-brand-blue/80 text-white text-xs px-2 py-1 rounded">Edited</div>
               <div className="absolute top-2 right-2 flex items-center space-x-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -181,6 +323,11 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
               {image.status === ImageStatus.ERROR && (
                 <div className="text-red-400">
                   <p className="font-bold">Failed to process</p>
+                  {image.errorCategory && (
+                    <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-red-900/60 text-red-200 text-xs font-semibold">
+                      {errorCategoryLabels[image.errorCategory]}
+                    </span>
+                  )}
                   <p className="text-xs mt-1">{image.error}</p>
                 </div>
               )}
@@ -188,6 +335,28 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, displayOriginalDataUrl, on
           )}
         </div>
       </div>
+      {image.status === ImageStatus.COMPLETED && image.candidates && image.candidates.length > 1 && (
+        <div className="p-3 border-t border-gray-700">
+          <p className="text-xs text-gray-400 mb-2">{image.candidates.length} candidates. Pick the one to keep:</p>
+          <div className="flex gap-2 overflow-x-auto">
+            {image.candidates.map((candidate, index) => (
+              <button
+                key={index}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectCandidate(image.id, index);
+                }}
+                className={`flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 transition-colors ${candidate === image.editedBlob ? 'border-brand-blue' : 'border-transparent hover:border-gray-500'}`}
+                title={`Use candidate ${index + 1}`}
+                aria-label={`Use candidate ${index + 1}`}
+                aria-pressed={candidate === image.editedBlob}
+              >
+                <img src={getObjectUrl(candidate)} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover bg-gray-900" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
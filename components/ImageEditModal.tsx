@@ -1,25 +1,40 @@
 
 import React, { useState, useEffect } from 'react';
-import { ImageFile, EditHistory } from '../types';
+import { ImageFile, EditHistory, GenerationSettings, ReferenceImage } from '../types';
 import { ExclamationTriangleIcon, SparklesIcon, ReplaceIcon, DownloadIcon, TagIcon } from './Icons';
-import { enhancePrompt, getTagsFromImage } from '../services/geminiService';
+import { ImageEditProvider, resolveModel, getMaxCandidates } from '../services/providers';
+import { getObjectUrl, downloadBlob } from '../services/imageBlobs';
+import { recordDailyUsage } from '../services/usageHistory';
+import GenerationSettingsFields from './GenerationSettingsFields';
+import ReferenceImagesPanel from './ReferenceImagesPanel';
+import ResponseMetadataView from './ResponseMetadataView';
 import { promptSuggestionsEditing, PromptSuggestion } from '../prompts';
 
 interface ImageEditModalProps {
   image: ImageFile | null;
   source: 'original' | 'edited';
   onClose: () => void;
-  onProcess: (imageId: string, prompt: string, sourceDataUrl: string) => Promise<void>;
+  onProcess: (imageId: string, prompt: string, sourceBlob: Blob, model: string, generation: GenerationSettings) => Promise<void>;
   onSavePrompt: (imageId: string, prompt: string) => void;
   isProcessing: boolean;
   globalPrompt: string;
   error?: string | null;
   taggingSystemPrompt: string;
   onMarkAsAutoTagged: (imageId: string) => void;
+  provider: ImageEditProvider;
+  /** The run's edit model, used when the image has no model of its own. */
+  defaultEditModel: string;
+  /** The run's generation settings, used when the image has none of its own. */
+  defaultGenerationSettings: GenerationSettings;
+  /** The model used for tagging and prompt enhancement. */
+  textModel: string;
+  /** How many run-wide reference images are sent before this image's own. */
+  runReferenceCount: number;
+  onReferenceImagesChange: (imageId: string, referenceImages: ReferenceImage[]) => void;
 }
 
-const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose, onProcess, onSavePrompt, isProcessing, globalPrompt, error, taggingSystemPrompt, onMarkAsAutoTagged }) => {
-  const [activeImageUrl, setActiveImageUrl] = useState('');
+const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose, onProcess, onSavePrompt, isProcessing, globalPrompt, error, taggingSystemPrompt, onMarkAsAutoTagged, provider, defaultEditModel, defaultGenerationSettings, textModel, runReferenceCount, onReferenceImagesChange }) => {
+  const [activeBlob, setActiveBlob] = useState<Blob | null>(null);
   const [activePrompt, setActivePrompt] = useState('');
   const [activeTimestamp, setActiveTimestamp] = useState<number | null>(null);
   const [originalPrompt, setOriginalPrompt] = useState<string | null>(null);
@@ -27,45 +42,49 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
   const [isTagging, setIsTagging] = useState(false);
   const [promptHelperError, setPromptHelperError] = useState<string | null>(null);
   const [autoTagBeforeSingleProcess, setAutoTagBeforeSingleProcess] = useState(true);
+  const [editModel, setEditModel] = useState(defaultEditModel);
+  const [generation, setGeneration] = useState(defaultGenerationSettings);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
 
 
   useEffect(() => {
     if (image) {
-      const sourceImageUrl = source === 'original' 
-        ? image.originalDataUrl 
-        : (image.editedDataUrl || image.originalDataUrl);
+      const sourceBlob = source === 'original' 
+        ? image.originalBlob 
+        : (image.editedBlob || image.originalBlob);
       
-      setActiveImageUrl(sourceImageUrl);
+      setActiveBlob(sourceBlob);
       setActivePrompt(image.prompt || globalPrompt || '');
       setOriginalPrompt(null);
       setIsEnhancing(false);
       setIsTagging(false);
       setPromptHelperError(null);
-      setAutoTagBeforeSingleProcess(!image.hasBeenAutoTaggedInModal);
+      setAutoTagBeforeSingleProcess(!image.hasBeenAutoTaggedInModal && provider.capabilities.tagging);
+      setEditModel(resolveModel(provider.editModels, image.modelOverride ?? defaultEditModel));
+      setGeneration(image.generationOverride ?? defaultGenerationSettings);
+      setReferences(image.referenceImages || []);
 
-      if (sourceImageUrl === image.originalDataUrl) {
+      if (sourceBlob === image.originalBlob) {
         setActiveTimestamp(0);
       } else {
-        const matchingHistoryItem = image.history?.find(h => h.dataUrl === sourceImageUrl);
+        const matchingHistoryItem = image.history?.find(h => h.blob === sourceBlob);
         setActiveTimestamp(matchingHistoryItem ? matchingHistoryItem.timestamp : null);
       }
     }
-  }, [image, source, globalPrompt]);
+  }, [image, source, globalPrompt, provider, defaultEditModel, defaultGenerationSettings]);
 
   if (!image) return null;
 
   const generateTagsForCurrentImage = async (): Promise<string | null> => {
-    if (!image) return null;
+    if (!image || !activeBlob) return null;
     setIsTagging(true);
     setPromptHelperError(null);
     try {
-        const base64Data = activeImageUrl.split(',')[1];
-        if (!base64Data) throw new Error('Invalid image data URL.');
-
-        const tagsResponse = await getTagsFromImage(
-            base64Data,
-            image.file.type,
-            taggingSystemPrompt
+        recordDailyUsage({ taggingCalls: 1 });
+        const tagsResponse = await provider.tag(
+            activeBlob,
+            taggingSystemPrompt,
+            { model: textModel }
         );
         onMarkAsAutoTagged(image.id); // Mark as tagged on successful API call
         const tagsPart = tagsResponse.split('.')[0];
@@ -110,9 +129,16 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
             // Error message is shown via promptHelperError state
         }
     }
-    await onProcess(image.id, finalPrompt, activeImageUrl);
+    if (activeBlob) {
+      await onProcess(image.id, finalPrompt, activeBlob, editModel, generation);
+    }
   };
   
+  const handleReferencesChange = (newReferences: ReferenceImage[]) => {
+    setReferences(newReferences);
+    onReferenceImagesChange(image.id, newReferences);
+  };
+
   const handleSave = () => {
     if (image) {
       onSavePrompt(image.id, activePrompt);
@@ -128,7 +154,8 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
     setPromptHelperError(null);
     setOriginalPrompt(promptToEnhance);
     try {
-      const enhanced = await enhancePrompt(promptToEnhance);
+      recordDailyUsage({ enhanceCalls: 1 });
+      const enhanced = await provider.enhance(promptToEnhance, { model: textModel });
       setActivePrompt(enhanced);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to enhance prompt.";
@@ -149,41 +176,52 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
   };
   
   const handleDownload = () => {
-    if (!image || !activeImageUrl) return;
-
-    const link = document.createElement('a');
-    link.href = activeImageUrl;
+    if (!image || !activeBlob) return;
 
     const originalName = image.file.name.replace(/\.[^/.]+$/, "");
-    const mimeType = activeImageUrl.substring(activeImageUrl.indexOf(':') + 1, activeImageUrl.indexOf(';'));
-    const extension = mimeType.split('/')[1] || 'png';
+    const extension = activeBlob.type.split('/')[1] || 'png';
 
     let suffix: string;
+    let model: string | undefined;
     if (activeTimestamp === 0) {
       suffix = 'original';
     } else if (activeTimestamp) {
       suffix = `edited-${activeTimestamp}`;
+      model = image.history?.find(h => h.timestamp === activeTimestamp)?.model;
     } else {
       suffix = 'edited-current';
+      model = image.model;
+    }
+    if (model) {
+      suffix += `-${model}`;
     }
 
-    link.download = `${originalName}-${suffix}.${extension}`;
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(activeBlob, `${originalName}-${suffix}.${extension}`);
   };
 
 
-  const historyItems: (EditHistory | { dataUrl: string; prompt: string; timestamp: number; })[] = [
-    { dataUrl: image.originalDataUrl, prompt: '(Original Image)', timestamp: 0 },
+  // Text-to-image jobs have no original to go back to.
+  const historyItems: EditHistory[] = [
+    ...(image.isGeneration ? [] : [{ blob: image.originalBlob, prompt: '(Original Image)', timestamp: 0 }]),
     ...(image.history || [])
   ];
 
-  const handleHistoryClick = (item: EditHistory | { dataUrl: string; prompt: string; timestamp: number; }) => {
-    setActiveImageUrl(item.dataUrl);
+  // The original has no response. Batch results aren't in the history, so the current edit reads the image's own.
+  const activeResponseMetadata = activeTimestamp === null
+    ? image.responseMetadata
+    : image.history?.find(h => h.timestamp === activeTimestamp)?.responseMetadata;
+
+  const handleHistoryClick = (item: EditHistory) => {
+    setActiveBlob(item.blob);
     setActivePrompt(item.timestamp === 0 ? (image.prompt || globalPrompt || '') : item.prompt);
     setActiveTimestamp(item.timestamp);
+    // Picking an earlier edit restores the settings that produced it, so it can be reproduced.
+    if (item.model) {
+      setEditModel(resolveModel(provider.editModels, item.model));
+    }
+    if (item.generation) {
+      setGeneration(item.generation);
+    }
   };
 
   const handleSuggestionSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -230,10 +268,11 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
                   onClick={() => handleHistoryClick(item)}
                   disabled={isTagging}
                   className={`w-full text-left rounded-lg overflow-hidden border-2 transition-colors ${activeTimestamp === item.timestamp ? 'border-brand-blue' : 'border-transparent hover:border-gray-600'} disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-transparent`}
-                  title={item.prompt}
+                  title={item.model ? `${item.prompt}\n\nModel: ${item.model}` : item.prompt}
                 >
-                  <img src={item.dataUrl} alt={`History from ${new Date(item.timestamp).toLocaleString()}`} className="w-full aspect-square object-cover bg-gray-900" />
-                  <p className="text-xs text-gray-400 p-2 truncate bg-gray-800">{item.prompt}</p>
+                  <img src={getObjectUrl(item.blob)} alt={`History from ${new Date(item.timestamp).toLocaleString()}`} className="w-full aspect-square object-cover bg-gray-900" />
+                  <p className="text-xs text-gray-400 px-2 pt-2 pb-1 truncate bg-gray-800">{item.prompt}</p>
+                  {item.model && <p className="text-[10px] font-mono text-gray-500 px-2 pb-2 truncate bg-gray-800">{item.model}</p>}
                 </button>
               ))}
             </div>
@@ -242,7 +281,7 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
           {/* Main Content */}
           <main className="flex-1 flex flex-col p-6 min-w-0">
             <div className="w-full flex-1 bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center min-h-0">
-              <img src={activeImageUrl} alt="Editing source" className="max-w-full max-h-full object-contain" />
+              {activeBlob && <img src={getObjectUrl(activeBlob)} alt="Editing source" className="max-w-full max-h-full object-contain" />}
             </div>
             <div className="mt-6 flex-shrink-0 flex flex-col">
               <div className="flex justify-between items-center mb-2 flex-wrap gap-2">
@@ -268,7 +307,7 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
                     <div className="flex items-center p-1 rounded-md bg-gray-900/50 border border-gray-700">
                         <button
                           onClick={handleAutoTagButtonClick}
-                          disabled={isProcessing || isTagging || isEnhancing}
+                          disabled={isProcessing || isTagging || isEnhancing || !provider.capabilities.tagging}
                           className="flex items-center px-2 py-0.5 text-sm font-semibold text-white bg-gradient-to-r from-teal-500 to-cyan-600 rounded-md hover:from-teal-600 hover:to-cyan-700 transition-all transform hover:scale-105 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
                           title="Generate tags from the current image and prepend them to the prompt"
                         >
@@ -282,7 +321,7 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
                                   id="autoTagBeforeSingleProcess"
                                   checked={autoTagBeforeSingleProcess}
                                   onChange={(e) => setAutoTagBeforeSingleProcess(e.target.checked)}
-                                  disabled={isProcessing || isTagging || isEnhancing}
+                                  disabled={isProcessing || isTagging || isEnhancing || !provider.capabilities.tagging}
                                   className="h-4 w-4 rounded border-gray-500 bg-gray-800 text-teal-500 focus:ring-teal-500"
                               />
                               <label htmlFor="autoTagBeforeSingleProcess" className="ml-2 block text-xs text-gray-400 select-none cursor-pointer whitespace-nowrap">
@@ -293,7 +332,7 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
                     {originalPrompt === null ? (
                       <button
                         onClick={handleEnhancePrompt}
-                        disabled={isProcessing || isEnhancing || isTagging || !activePrompt.trim()}
+                        disabled={isProcessing || isEnhancing || isTagging || !activePrompt.trim() || !provider.capabilities.promptEnhancement}
                         className="flex items-center px-3 py-1 text-sm font-semibold text-white bg-gradient-to-r from-brand-purple to-purple-700 rounded-md hover:from-purple-600 hover:to-purple-800 transition-all transform hover:scale-105 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
                         title="Use AI to improve and expand your prompt"
                       >
@@ -331,6 +370,36 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
               {promptHelperError && (
                   <p className="text-red-400 text-xs mt-1 px-1">{promptHelperError}</p>
               )}
+              {activeResponseMetadata && <ResponseMetadataView metadata={activeResponseMetadata} className="mt-3" />}
+              <details className="mt-3">
+                <summary className="text-sm text-gray-400 cursor-pointer select-none">
+                  Reference Images{references.length > 0 && ` (${references.length})`}
+                </summary>
+                <div className="mt-2">
+                  <ReferenceImagesPanel
+                    references={references}
+                    onChange={handleReferencesChange}
+                    disabled={isProcessing || isTagging}
+                    description={runReferenceCount > 0
+                      ? `Sent with this image only, after the run's ${runReferenceCount} reference image${runReferenceCount === 1 ? '' : 's'}.`
+                      : 'Sent with this image only, e.g. a character sheet, a style sample or an outfit.'}
+                  />
+                </div>
+              </details>
+              <details className="mt-3">
+                <summary className="text-sm text-gray-400 cursor-pointer select-none">
+                  Generation Settings
+                </summary>
+                <div className="mt-2">
+                  <GenerationSettingsFields
+                    settings={generation}
+                    onChange={setGeneration}
+                    disabled={isProcessing || isTagging}
+                    maxCandidates={getMaxCandidates(provider.editModels, editModel)}
+                    idPrefix="modal-generation"
+                  />
+                </div>
+              </details>
             </div>
           </main>
         </div>
@@ -344,6 +413,18 @@ const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, source, onClose,
               </div>
             </div>
           )}
+          <select
+            value={editModel}
+            onChange={(e) => setEditModel(e.target.value)}
+            disabled={isProcessing || isTagging}
+            className="p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-blue focus:border-transparent transition-colors disabled:opacity-50"
+            aria-label="Model used to process this image"
+            title="Model used to process this image"
+          >
+            {provider.editModels.map(m => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
           <button
             onClick={handleDownload}
             className="px-6 py-2 text-base font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors flex items-center"
@@ -1,19 +1,30 @@
 
-import React from 'react';
-import { ImageFile } from '../types';
+import React, { useState } from 'react';
+import { ImageFile, ImageStatus } from '../types';
 import ImageCard from './ImageCard';
 
 interface ImageListProps {
   images: ImageFile[];
+  /** Each queued image's place in the dispatch order, starting at 1. */
+  queuePositions: Map<string, number>;
   onEdit: (imageId: string, source: 'original' | 'edited') => void;
   onUseAsOriginal: (imageId: string) => void;
   onImageClick: (url: string, alt: string) => void;
   onDownload: (imageId: string, source: 'original' | 'edited') => void;
   onDelete: (imageId: string) => void;
   onShowOriginal: (imageId: string) => void;
+  onSelectCandidate: (imageId: string, candidateIndex: number) => void;
+  /** Moves a queued image to where another queued image was dropped on. */
+  onReorder: (draggedId: string, targetId: string) => void;
+  onRunNext: (imageId: string) => void;
+  onMoveToEnd: (imageId: string) => void;
+  onSetPriority: (imageId: string, priority: number) => void;
 }
 
-const ImageList: React.FC<ImageListProps> = ({ images, onEdit, onUseAsOriginal, onImageClick, onDownload, onDelete, onShowOriginal }) => {
+const ImageList: React.FC<ImageListProps> = ({ images, queuePositions, onEdit, onUseAsOriginal, onImageClick, onDownload, onDelete, onShowOriginal, onSelectCandidate, onReorder, onRunNext, onMoveToEnd, onSetPriority }) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
   if (images.length === 0) {
     return (
       <div className="text-center py-16 text-gray-500">
@@ -23,27 +34,56 @@ const ImageList: React.FC<ImageListProps> = ({ images, onEdit, onUseAsOriginal,
     );
   }
 
-  const imageMap = React.useMemo(() => new Map(images.map(i => [i.id, i])), [images]);
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
       {images.map((image) => {
-        const displayOriginalDataUrl = image.sourceImageId
-          ? imageMap.get(image.sourceImageId)?.originalDataUrl ?? image.originalDataUrl
-          : image.originalDataUrl;
-        
+        // Only queued images can be reordered; the others have already left the queue.
+        const isQueued = image.status === ImageStatus.QUEUED;
+        const canDrop = isQueued && draggedId !== null && draggedId !== image.id;
         return (
-          <ImageCard 
-            key={image.id} 
-            image={image}
-            displayOriginalDataUrl={displayOriginalDataUrl}
-            onEdit={onEdit} 
-            onUseAsOriginal={onUseAsOriginal}
-            onImageClick={onImageClick}
-            onDownload={onDownload}
-            onDelete={onDelete}
-            onShowOriginal={onShowOriginal}
-          />
+          <div
+            key={image.id}
+            draggable={isQueued}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(image.id);
+            }}
+            onDragOver={(e) => {
+              if (!canDrop) return;
+              e.preventDefault();
+              setDropTargetId(image.id);
+            }}
+            onDragLeave={() => setDropTargetId(prev => prev === image.id ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (canDrop) {
+                onReorder(draggedId!, image.id);
+              }
+              handleDragEnd();
+            }}
+            onDragEnd={handleDragEnd}
+            className={`rounded-lg transition-all ${isQueued ? 'cursor-grab active:cursor-grabbing' : ''} ${draggedId === image.id ? 'opacity-50' : ''} ${dropTargetId === image.id ? 'ring-2 ring-brand-blue ring-offset-2 ring-offset-gray-900' : ''}`}
+          >
+            <ImageCard 
+              image={image}
+              queuePosition={queuePositions.get(image.id)}
+              onEdit={onEdit} 
+              onUseAsOriginal={onUseAsOriginal}
+              onImageClick={onImageClick}
+              onDownload={onDownload}
+              onDelete={onDelete}
+              onShowOriginal={onShowOriginal}
+              onSelectCandidate={onSelectCandidate}
+              onRunNext={onRunNext}
+              onMoveToEnd={onMoveToEnd}
+              onSetPriority={onSetPriority}
+            />
+          </div>
         );
       })}
     </div>
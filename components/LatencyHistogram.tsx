@@ -0,0 +1,52 @@
+import React from 'react';
+
+interface LatencyHistogramProps {
+  /** In milliseconds. */
+  latencies: number[];
+}
+
+/** Upper bounds in seconds. The last bucket takes everything slower. */
+const bucketBounds = [5, 10, 15, 20, 30, 45, 60, 90];
+
+const bucketLabels = [
+  ...bucketBounds.map((bound, index) => `${index === 0 ? 0 : bucketBounds[index - 1]}–${bound}s`),
+  `${bucketBounds[bucketBounds.length - 1]}s+`,
+];
+
+const percentile = (sorted: number[], fraction: number): number => {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+const LatencyHistogram: React.FC<LatencyHistogramProps> = ({ latencies }) => {
+  const counts = new Array(bucketLabels.length).fill(0);
+  for (const latency of latencies) {
+    const index = bucketBounds.findIndex(bound => latency / 1000 < bound);
+    counts[index === -1 ? bucketBounds.length : index]++;
+  }
+  const max = Math.max(...counts, 1);
+  const sorted = [...latencies].sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-2">
+      <div className="h-20 flex items-end gap-1">
+        {counts.map((count, index) => (
+          <div key={bucketLabels[index]} className="flex-1 h-full flex flex-col justify-end items-center" title={`${bucketLabels[index]}: ${count} image(s)`}>
+            {count > 0 && <span className="text-[10px] text-gray-400">{count}</span>}
+            <div className="w-full bg-brand-blue/80 rounded-t" style={{ height: `${count / max * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-gray-500">
+        {bucketLabels.map(label => <span key={label} className="flex-1 text-center">{label}</span>)}
+      </div>
+      {sorted.length > 0 && (
+        <p className="text-xs text-gray-400">
+          Median {(percentile(sorted, 0.5) / 1000).toFixed(1)}s · p90 {(percentile(sorted, 0.9) / 1000).toFixed(1)}s ·
+          fastest {(sorted[0] / 1000).toFixed(1)}s · slowest {(sorted[sorted.length - 1] / 1000).toFixed(1)}s
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LatencyHistogram;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { MockProviderConfig, MockFailureMode, mockFailureModes } from '../services/mockProvider';
+
+interface MockProviderSettingsProps {
+  config: MockProviderConfig;
+  onChange: (config: MockProviderConfig) => void;
+  disabled: boolean;
+}
+
+const MockProviderSettings: React.FC<MockProviderSettingsProps> = ({ config, onChange, disabled }) => {
+  const handleFailureModeToggle = (mode: MockFailureMode) => {
+    const failureModes = config.failureModes.includes(mode)
+      ? config.failureModes.filter(m => m !== mode)
+      : [...config.failureModes, mode];
+    onChange({ ...config, failureModes });
+  };
+
+  return (
+    <div className="p-3 rounded-md border border-dashed border-gray-600 space-y-3">
+      <p className="text-xs text-gray-400">
+        The mock backend returns flipped, tinted copies of your images without calling any API.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="mock-latency" className="text-xs font-medium text-gray-300 mb-1 block">Latency (ms)</label>
+          <input
+            id="mock-latency"
+            type="number"
+            value={config.latencyMs}
+            onChange={(e) => onChange({ ...config, latencyMs: Math.max(0, Number(e.target.value)) })}
+            min="0"
+            step="100"
+            disabled={disabled}
+            className="w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50"
+          />
+        </div>
+        <div>
+          <label htmlFor="mock-fail-every" className="text-xs font-medium text-gray-300 mb-1 block">Fail Every Nth Request (0 = never)</label>
+          <input
+            id="mock-fail-every"
+            type="number"
+            value={config.failEvery}
+            onChange={(e) => onChange({ ...config, failEvery: Math.max(0, Math.floor(Number(e.target.value))) })}
+            min="0"
+            disabled={disabled}
+            className="w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50"
+          />
+        </div>
+        <div>
+          <label htmlFor="mock-timeout" className="text-xs font-medium text-gray-300 mb-1 block">Timeout (ms)</label>
+          <input
+            id="mock-timeout"
+            type="number"
+            value={config.timeoutMs}
+            onChange={(e) => onChange({ ...config, timeoutMs: Math.max(100, Number(e.target.value)) })}
+            min="100"
+            step="500"
+            disabled={disabled}
+            className="w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50"
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {mockFailureModes.map(mode => (
+          <div key={mode.key} className="flex items-center">
+            <input
+              type="checkbox"
+              id={`mock-failure-${mode.key}`}
+              checked={config.failureModes.includes(mode.key)}
+              onChange={() => handleFailureModeToggle(mode.key)}
+              disabled={disabled}
+              className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-brand-blue focus:ring-brand-blue"
+            />
+            <label htmlFor={`mock-failure-${mode.key}`} className="ml-2 block text-xs text-gray-300">{mode.label}</label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MockProviderSettings;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ModelPrice } from '../types';
+import { ModelOption } from '../services/providers';
+
+interface PricingSettingsProps {
+  /** The models to show prices for, normally the current provider's edit models. */
+  models: ModelOption[];
+  prices: Record<string, ModelPrice>;
+  onPricesChange: (prices: Record<string, ModelPrice>) => void;
+  /** In USD. Null means no budget. */
+  dailyBudget: number | null;
+  onDailyBudgetChange: (budget: number | null) => void;
+}
+
+const inputClassName = "w-full p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-brand-blue";
+
+const PricingSettings: React.FC<PricingSettingsProps> = ({ models, prices, onPricesChange, dailyBudget, onDailyBudgetChange }) => {
+  const handlePriceChange = (modelId: string, field: keyof ModelPrice, value: string) => {
+    const current = prices[modelId] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    onPricesChange({ ...prices, [modelId]: { ...current, [field]: Math.max(0, Number(value)) } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-400">
+        Estimates only, from the token counts each response reports. Prices are USD per million tokens; generated images count as output tokens.
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 text-left">
+            <th className="font-medium pb-1">Model</th>
+            <th className="font-medium pb-1 pl-2">Input $/1M</th>
+            <th className="font-medium pb-1 pl-2">Output $/1M</th>
+          </tr>
+        </thead>
+        <tbody>
+          {models.map(model => (
+            <tr key={model.id}>
+              <td className="py-1 text-gray-300 truncate" title={model.id}>{model.label}</td>
+              <td className="py-1 pl-2">
+                <input
+                  type="number"
+                  value={prices[model.id]?.inputPerMillion ?? 0}
+                  onChange={(e) => handlePriceChange(model.id, 'inputPerMillion', e.target.value)}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                  aria-label={`Input price for ${model.label}`}
+                />
+              </td>
+              <td className="py-1 pl-2">
+                <input
+                  type="number"
+                  value={prices[model.id]?.outputPerMillion ?? 0}
+                  onChange={(e) => handlePriceChange(model.id, 'outputPerMillion', e.target.value)}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                  aria-label={`Output price for ${model.label}`}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div>
+        <label htmlFor="daily-budget" className="text-xs font-medium text-gray-300 mb-1 block">Daily Budget (USD)</label>
+        <input
+          id="daily-budget"
+          type="number"
+          value={dailyBudget ?? ''}
+          onChange={(e) => onDailyBudgetChange(e.target.value.trim() === '' ? null : Math.max(0, Number(e.target.value)))}
+          min="0"
+          step="0.5"
+          placeholder="No limit"
+          className={`${inputClassName} sm:w-40`}
+        />
+        <p className="text-xs text-gray-500 mt-1">The queue pauses once today's estimated spend reaches it. Days follow Pacific time, like the API quotas.</p>
+      </div>
+    </div>
+  );
+};
+
+export default PricingSettings;
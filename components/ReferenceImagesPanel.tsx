@@ -0,0 +1,78 @@
+import React from 'react';
+import { ReferenceImage } from '../types';
+import { getObjectUrl } from '../services/imageBlobs';
+import { UploadIcon, TrashIcon } from './Icons';
+
+interface ReferenceImagesPanelProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  disabled: boolean;
+  /** Explains where these references are sent. */
+  description: string;
+}
+
+const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({ references, onChange, disabled, description }) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const addReferences = (files: FileList) => {
+    // A File is already a Blob, so it can be stored as the reference directly.
+    const added: ReferenceImage[] = Array.from(files).map(file => ({
+      id: `ref-${file.name}-${Date.now()}-${Math.random()}`,
+      name: file.name,
+      blob: file,
+    }));
+    onChange([...references, ...added]);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      addReferences(event.target.files);
+      event.target.value = ''; // Reset file input
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(references.filter(reference => reference.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">{description}</p>
+      <div className="flex flex-wrap gap-2">
+        {references.map(reference => (
+          <div key={reference.id} className="relative group w-20 h-20 rounded-md overflow-hidden border border-gray-700 bg-gray-900" title={reference.name}>
+            <img src={getObjectUrl(reference.blob)} alt={`Reference ${reference.name}`} className="w-full h-full object-cover" />
+            <button
+              onClick={() => handleRemove(reference.id)}
+              disabled={disabled}
+              className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white hover:bg-red-600 opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+              aria-label={`Remove reference ${reference.name}`}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <input
+          type="file"
+          multiple
+          accept="image/png, image/jpeg, image/webp"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          disabled={disabled}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-600 rounded-md text-gray-500 hover:border-brand-blue hover:text-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-600"
+          aria-label="Add reference images"
+        >
+          <UploadIcon className="w-6 h-6" />
+          <span className="text-xs mt-1">Add</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceImagesPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ResponseMetadata } from '../types';
+
+interface ResponseMetadataViewProps {
+  metadata: ResponseMetadata;
+  className?: string;
+}
+
+/**
+ * Turns an API enum like HARM_CATEGORY_SEXUALLY_EXPLICIT into "Sexually Explicit".
+ */
+const formatEnum = (value: string): string => {
+  return value
+    .replace(/^HARM_CATEGORY_/, '')
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const probabilityClassNames: Record<string, string> = {
+  NEGLIGIBLE: 'text-gray-400',
+  LOW: 'text-gray-300',
+  MEDIUM: 'text-yellow-400',
+  HIGH: 'text-red-400',
+};
+
+/**
+ * Collapsible summary of what the API said alongside (or instead of) an image.
+ */
+const ResponseMetadataView: React.FC<ResponseMetadataViewProps> = ({ metadata, className = '' }) => {
+  const hasTokens = metadata.totalTokens !== undefined || metadata.promptTokens !== undefined || metadata.outputTokens !== undefined;
+  const flagged = !!metadata.blockReason || metadata.safetyRatings.some(rating => rating.blocked);
+
+  return (
+    <details className={`text-xs text-gray-400 ${className}`} onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer hover:text-gray-200 select-none">
+        Response details
+        {metadata.text && ' · text'}
+        {flagged && <span className="text-red-400"> · blocked</span>}
+        {metadata.totalTokens !== undefined && ` · ${metadata.totalTokens.toLocaleString()} tokens`}
+      </summary>
+      <dl className="mt-2 space-y-2 border-l-2 border-gray-700 pl-2">
+        {metadata.blockReason && (
+          <div>
+            <dt className="text-gray-500">Prompt blocked</dt>
+            <dd className="text-red-400">{formatEnum(metadata.blockReason)}</dd>
+          </div>
+        )}
+        {metadata.finishReasons.length > 0 && (
+          <div>
+            <dt className="text-gray-500">Finish reason{metadata.finishReasons.length > 1 && 's'}</dt>
+            <dd className="font-mono">{metadata.finishReasons.join(', ')}</dd>
+          </div>
+        )}
+        {metadata.text && (
+          <div>
+            <dt className="text-gray-500">Model text</dt>
+            <dd className="whitespace-pre-wrap break-words max-h-32 overflow-y-auto text-gray-300">{metadata.text}</dd>
+          </div>
+        )}
+        {metadata.safetyRatings.length > 0 && (
+          <div>
+            <dt className="text-gray-500">Safety ratings</dt>
+            <dd>
+              <ul>
+                {metadata.safetyRatings.map(rating => (
+                  <li key={rating.category} className="flex justify-between gap-2">
+                    <span>{formatEnum(rating.category)}</span>
+                    <span className={probabilityClassNames[rating.probability] ?? 'text-gray-400'}>
+                      {formatEnum(rating.probability)}{rating.blocked && ' (blocked)'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </dd>
+          </div>
+        )}
+        {hasTokens && (
+          <div>
+            <dt className="text-gray-500">Tokens</dt>
+            <dd className="font-mono">
+              {metadata.promptTokens ?? '?'} in / {metadata.outputTokens ?? '?'} out / {metadata.totalTokens ?? '?'} total
+            </dd>
+          </div>
+        )}
+      </dl>
+    </details>
+  );
+};
+
+export default ResponseMetadataView;
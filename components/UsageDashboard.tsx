@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { DailyUsageEntry } from '../types';
+import { loadUsageHistory, getRecentDays, getAverageLatencyMs, toUsageCsv, getPacificToday } from '../services/usageHistory';
+import { downloadBlob } from '../services/imageBlobs';
+import { formatCost } from '../services/usage';
+import { ChartBarIcon, DownloadIcon, XCircleIcon } from './Icons';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const rangeOptions = [30, 90] as const;
+type RangeDays = typeof rangeOptions[number];
+
+interface BarSegment {
+  value: number;
+  className: string;
+}
+
+interface UsageChartProps {
+  title: string;
+  days: DailyUsageEntry[];
+  /** Stacked bottom to top. */
+  getSegments: (day: DailyUsageEntry) => BarSegment[];
+  formatValue: (value: number) => string;
+  /** Explains the colors when there is more than one segment. */
+  legend?: { label: string; className: string }[];
+}
+
+const UsageChart: React.FC<UsageChartProps> = ({ title, days, getSegments, formatValue, legend }) => {
+  const totals = days.map(day => getSegments(day).reduce((sum, segment) => sum + segment.value, 0));
+  const max = Math.max(...totals, 0);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-3">
+      <div className="flex justify-between items-baseline mb-2 gap-2">
+        <h3 className="text-sm font-semibold text-gray-300">{title}</h3>
+        {legend && (
+          <div className="flex gap-3 text-xs text-gray-400">
+            {legend.map(item => (
+              <span key={item.label} className="flex items-center gap-1">
+                <span className={`inline-block w-2 h-2 rounded-sm ${item.className}`} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {max === 0 ? (
+        <p className="h-24 flex items-center justify-center text-xs text-gray-500">Nothing recorded in this range.</p>
+      ) : (
+        <div className="h-24 flex items-end gap-px">
+          {days.map((day, index) => (
+            <div
+              key={day.date}
+              className="flex-1 h-full flex flex-col-reverse hover:bg-gray-700/40"
+              title={`${day.date}: ${formatValue(totals[index])}`}
+            >
+              {getSegments(day).map((segment, segmentIndex) => (
+                <div key={segmentIndex} className={segment.className} style={{ height: `${segment.value / max * 100}%` }} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{days[0]?.date}</span>
+        <span>max {formatValue(max)}</span>
+        <span>{days[days.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+};
+
+const sumFailures = (day: DailyUsageEntry): number => {
+  return Object.values(day.failures).reduce((sum, count) => sum + (count ?? 0), 0);
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  // Read once per opening; the log only changes while work runs, which the counters already show live.
+  const [history] = useState(() => loadUsageHistory());
+  const [rangeDays, setRangeDays] = useState<RangeDays>(30);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const days = getRecentDays(history, rangeDays);
+  const totalImages = days.reduce((sum, day) => sum + day.imagesProcessed, 0);
+  const totalFailures = days.reduce((sum, day) => sum + sumFailures(day), 0);
+  const totalCost = days.reduce((sum, day) => sum + day.usage.cost, 0);
+  const latencyTotal = days.reduce((sum, day) => sum + day.latencyTotalMs, 0);
+  const latencySamples = days.reduce((sum, day) => sum + day.latencySamples, 0);
+  const totalTextCalls = days.reduce((sum, day) => sum + day.taggingCalls + day.enhanceCalls, 0);
+
+  const handleExport = () => {
+    const csv = toUsageCsv(days);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `nanobanana-usage-${rangeDays}d-${getPacificToday()}.csv`);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="usage-dashboard-title"
+    >
+      <div className="relative w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-white bg-gray-800 rounded-full hover:bg-red-600 transition-colors"
+          aria-label="Close usage history"
+        >
+          <XCircleIcon className="w-8 h-8" />
+        </button>
+        <div className="flex flex-wrap items-center gap-3 pr-10">
+          <div className="flex items-center space-x-2 mr-auto">
+            <ChartBarIcon className="w-6 h-6 text-brand-purple" />
+            <h2 id="usage-dashboard-title" className="text-xl font-semibold text-gray-200">Usage History</h2>
+          </div>
+          <div className="flex rounded-md border border-gray-600 overflow-hidden text-sm">
+            {rangeOptions.map(option => (
+              <button
+                key={option}
+                onClick={() => setRangeDays(option)}
+                className={`px-3 py-1 ${rangeDays === option ? 'bg-brand-blue text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+                aria-pressed={rangeDays === option}
+              >
+                {option} days
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleExport}
+            className="flex items-center px-3 py-1 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors"
+            title="Download one row per day of the selected range"
+          >
+            <DownloadIcon className="w-4 h-4 mr-1.5" />
+            Export CSV
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+          <div className="bg-gray-900/50 rounded-lg p-2">
+            <p className="text-xs text-gray-400">Images</p>
+            <p className="text-lg font-bold text-green-400">{totalImages}</p>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-2">
+            <p className="text-xs text-gray-400">Failed Attempts</p>
+            <p className="text-lg font-bold text-red-400">{totalFailures}</p>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-2">
+            <p className="text-xs text-gray-400">Avg. Latency</p>
+            <p className="text-lg font-bold text-gray-200">{latencySamples > 0 ? `${(latencyTotal / latencySamples / 1000).toFixed(1)}s` : '–'}</p>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-2">
+            <p className="text-xs text-gray-400">Tag & Enhance Calls</p>
+            <p className="text-lg font-bold text-gray-200">{totalTextCalls}</p>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-2">
+            <p className="text-xs text-gray-400">Est. Spend</p>
+            <p className="text-lg font-bold text-gray-200">{formatCost(totalCost)}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <UsageChart
+            title="Images Processed"
+            days={days}
+            getSegments={day => [
+              { value: day.imagesProcessed, className: 'bg-green-500' },
+              { value: sumFailures(day), className: 'bg-red-500' },
+            ]}
+            formatValue={value => String(value)}
+            legend={[{ label: 'Processed', className: 'bg-green-500' }, { label: 'Failed', className: 'bg-red-500' }]}
+          />
+          <UsageChart
+            title="Average Latency"
+            days={days}
+            getSegments={day => [{ value: (getAverageLatencyMs(day) ?? 0) / 1000, className: 'bg-brand-blue' }]}
+            formatValue={value => `${value.toFixed(1)}s`}
+          />
+          <UsageChart
+            title="Tagging & Enhance Calls"
+            days={days}
+            getSegments={day => [
+              { value: day.taggingCalls, className: 'bg-teal-500' },
+              { value: day.enhanceCalls, className: 'bg-brand-purple' },
+            ]}
+            formatValue={value => String(value)}
+            legend={[{ label: 'Tagging', className: 'bg-teal-500' }, { label: 'Enhance', className: 'bg-brand-purple' }]}
+          />
+          <UsageChart
+            title="Estimated Spend"
+            days={days}
+            getSegments={day => [{ value: day.usage.cost, className: 'bg-yellow-500' }]}
+            formatValue={formatCost}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Days follow Pacific time, like the API quotas. History is kept in this browser for about a year.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,132 @@
+import type { ErrorCategory, ResponseMetadata } from "../types";
+
+/**
+ * Base class for failed API requests. Each subclass stands for one error
+ * category, so callers can branch on the type instead of parsing messages.
+ */
+export abstract class ApiRequestError extends Error {
+  abstract readonly category: ErrorCategory;
+  /** The raw response or error the failure was derived from, for debugging. */
+  readonly details?: unknown;
+  /** What the response said, when the API did answer. Set by whoever parsed the response. */
+  metadata?: ResponseMetadata;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.details = details;
+  }
+}
+
+/**
+ * Custom error for API rate limiting (429).
+ */
+export class RateLimitError extends ApiRequestError {
+  readonly category = 'rateLimited';
+  /** How long the API asked us to wait before retrying, when it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, details?: unknown) {
+    super(message, details);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown when a request takes longer than its timeout.
+ */
+export class TimeoutError extends ApiRequestError {
+  readonly category = 'timeout';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Thrown when the response was blocked by safety filters.
+ */
+export class SafetyBlockedError extends ApiRequestError {
+  readonly category = 'safetyBlocked';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "SafetyBlockedError";
+  }
+}
+
+/**
+ * Thrown when the model answers with text instead of an image.
+ */
+export class TextInsteadOfImageError extends ApiRequestError {
+  readonly category = 'textInsteadOfImage';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "TextInsteadOfImageError";
+  }
+}
+
+/**
+ * Thrown when the API rejects the request itself (400), e.g. an unsupported image.
+ */
+export class InvalidInputError extends ApiRequestError {
+  readonly category = 'invalidInput';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "InvalidInputError";
+  }
+}
+
+/**
+ * Thrown when the API key is missing, invalid or lacks permission (401/403).
+ */
+export class AuthFailedError extends ApiRequestError {
+  readonly category = 'authFailed';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "AuthFailedError";
+  }
+}
+
+/**
+ * Any other failure, including responses that contain no image and no explanation.
+ */
+export class UnknownApiError extends ApiRequestError {
+  readonly category = 'unknown';
+
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "UnknownApiError";
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its abort signal.
+ */
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request was cancelled.') {
+    super(message);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * The category of any thrown value. Errors that didn't come from an API request count as unknown.
+ */
+export const getErrorCategory = (error: unknown): ErrorCategory => {
+  return error instanceof ApiRequestError ? error.category : 'unknown';
+};
+
+export const errorCategoryLabels: Record<ErrorCategory, string> = {
+  rateLimited: 'Rate Limited',
+  timeout: 'Timeout',
+  safetyBlocked: 'Safety Blocked',
+  textInsteadOfImage: 'Text Reply',
+  invalidInput: 'Invalid Input',
+  authFailed: 'Auth Failed',
+  unknown: 'Unknown',
+};
@@ -0,0 +1,92 @@
+/**
+ * A key the pool can hand out for a request.
+ */
+export interface PooledKey {
+  id: string;
+  key: string;
+}
+
+/**
+ * How long a key rests after a 429 when the API didn't say how long to wait. Only used with
+ * several keys; a lone key is left to the queue's backoff.
+ */
+const DEFAULT_KEY_COOLDOWN_MS = 60000;
+
+let keys: PooledKey[] = [];
+let cursor = 0;
+const cooldownUntil = new Map<string, number>();
+const usageListeners = new Set<(keyId: string) => void>();
+
+/**
+ * Replaces the keys requests are spread across. Cooldowns of keys that stay in the pool are kept.
+ */
+export const setPoolKeys = (newKeys: PooledKey[]): void => {
+  keys = newKeys;
+  cursor = 0;
+  for (const id of [...cooldownUntil.keys()]) {
+    if (!newKeys.some(k => k.id === id)) {
+      cooldownUntil.delete(id);
+    }
+  }
+};
+
+export const getPoolSize = (): number => keys.length;
+
+const isCoolingDown = (id: string, now: number): boolean => (cooldownUntil.get(id) ?? 0) > now;
+
+/**
+ * Picks the next key that isn't cooling down, rotating through the pool so
+ * consecutive requests land on different keys.
+ * @returns The key, or null when the pool is empty or every key is cooling down.
+ */
+export const acquireKey = (): PooledKey | null => {
+  const now = Date.now();
+  for (let i = 0; i < keys.length; i++) {
+    const candidate = keys[(cursor + i) % keys.length];
+    if (!isCoolingDown(candidate.id, now)) {
+      cursor = (cursor + i + 1) % keys.length;
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes a key out of rotation after it was rate limited.
+ * @param retryAfterMs How long the API asked us to wait, if it said.
+ */
+export const markKeyRateLimited = (id: string, retryAfterMs?: number): void => {
+  cooldownUntil.set(id, Date.now() + (retryAfterMs ?? DEFAULT_KEY_COOLDOWN_MS));
+};
+
+/**
+ * @returns When the key can be used again, or undefined if it isn't cooling down.
+ */
+export const getKeyCooldownUntil = (id: string): number | undefined => {
+  const until = cooldownUntil.get(id);
+  return until !== undefined && until > Date.now() ? until : undefined;
+};
+
+/**
+ * @returns How long until any key in the pool can be used again. Zero if one already can.
+ */
+export const getTimeUntilKeyAvailable = (): number => {
+  const now = Date.now();
+  const waits = keys.map(k => Math.max(0, (cooldownUntil.get(k.id) ?? 0) - now));
+  return waits.length > 0 ? Math.min(...waits) : 0;
+};
+
+/**
+ * Registers a listener that is called every time a request is sent with a key.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToKeyUsage = (listener: (keyId: string) => void): (() => void) => {
+  usageListeners.add(listener);
+  return () => {
+    usageListeners.delete(listener);
+  };
+};
+
+export const recordKeyUsage = (id: string): void => {
+  usageListeners.forEach(listener => listener(id));
+};
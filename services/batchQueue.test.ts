@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+import { BatchQueue, BatchQueueEvent, BatchQueueOptions, JobExecutor, QueueTimers } from './batchQueue';
+
+class RateLimited extends Error {}
+
+/** Lets promise callbacks, such as the queue's handling of a settled executor, run. */
+const flushPromises = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * A manual clock. Timers only fire when advance() moves past them.
+ */
+const createFakeTimers = () => {
+  let now = 0;
+  let nextHandle = 1;
+  const scheduled = new Map<number, { at: number; callback: () => void }>();
+  const timers: QueueTimers = {
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++;
+      scheduled.set(handle, { at: now + ms, callback });
+      return handle;
+    },
+    clearTimeout: (handle) => {
+      scheduled.delete(handle as number);
+    },
+    now: () => now,
+  };
+
+  /** Moves the clock forward, firing due timers in order, including ones they schedule. */
+  const advance = async (ms: number) => {
+    const target = now + ms;
+    await flushPromises();
+    for (;;) {
+      const due = [...scheduled].filter(([, timer]) => timer.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      const [handle, timer] = due;
+      scheduled.delete(handle);
+      now = timer.at;
+      timer.callback();
+      await flushPromises();
+    }
+    now = target;
+    await flushPromises();
+  };
+
+  return { timers, advance };
+};
+
+/**
+ * An executor whose calls stay in flight until the test settles them.
+ */
+const createExecutor = () => {
+  const calls: { id: string; resolve: (result: string) => void; reject: (error: unknown) => void }[] = [];
+  const executor: JobExecutor<string> = (job) => new Promise((resolve, reject) => {
+    calls.push({ id: job.id, resolve, reject });
+  });
+  return { executor, calls };
+};
+
+const createQueue = (options: Partial<BatchQueueOptions<string>> = {}) => {
+  const { timers, advance } = createFakeTimers();
+  const { executor, calls } = createExecutor();
+  const queue = new BatchQueue<string>({
+    executor,
+    concurrency: 1,
+    isRateLimitError: (error) => error instanceof RateLimited,
+    rateLimitBackoff: { baseDelayMs: 1000, maxDelayMs: 10000, maxRetries: 3, jitterRatio: 0 },
+    timers,
+    ...options,
+  });
+  const events: BatchQueueEvent<string>[] = [];
+  queue.subscribe(event => events.push(event));
+  const eventTypes = () => events.map(event => event.type);
+  return { queue, calls, events, eventTypes, advance };
+};
+
+describe('BatchQueue', () => {
+  it('requeues a rate-limited job and holds every dispatch until the cooldown ends', async () => {
+    const { queue, calls, events, eventTypes, advance } = createQueue();
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+    expect(calls.map(call => call.id)).toEqual(['a']);
+
+    calls[0].reject(new RateLimited());
+    await flushPromises();
+    expect(events.find(event => event.type === 'rate-limited')).toMatchObject({ job: { id: 'a' }, retryInMs: 1000 });
+    expect(queue.isCoolingDown).toBe(true);
+
+    await advance(999);
+    expect(calls).toHaveLength(1);
+
+    await advance(1);
+    expect(eventTypes()).toContain('cooldown-ended');
+    expect(calls.map(call => call.id)).toEqual(['a', 'a']);
+    expect(queue.getJob('a')).toMatchObject({ attempts: 2, rateLimitRetries: 1 });
+
+    calls[1].resolve('done');
+    await advance(0);
+    expect(queue.getJob('a')).toMatchObject({ state: 'completed', rateLimitRetries: 0 });
+    expect(calls.map(call => call.id)).toEqual(['a', 'a', 'b']);
+  });
+
+  it('doubles the backoff with every consecutive rate limit', async () => {
+    const { queue, calls, events, advance } = createQueue();
+    queue.enqueue(['a']);
+    queue.start();
+    await advance(0);
+    calls[0].reject(new RateLimited());
+    await advance(1000);
+    calls[1].reject(new RateLimited());
+    await flushPromises();
+
+    const delays = events.flatMap(event => event.type === 'rate-limited' ? [event.retryInMs] : []);
+    expect(delays).toEqual([1000, 2000]);
+  });
+
+  it('fails a job once it runs out of rate-limit retries', async () => {
+    const { queue, calls, events, advance } = createQueue({
+      rateLimitBackoff: { baseDelayMs: 1000, maxDelayMs: 10000, maxRetries: 1, jitterRatio: 0 },
+    });
+    queue.enqueue(['a']);
+    queue.start();
+    await advance(0);
+    calls[0].reject(new RateLimited());
+    await advance(1000);
+    calls[1].reject(new RateLimited());
+    await flushPromises();
+
+    expect(events.filter(event => event.type === 'rate-limited')).toHaveLength(1);
+    expect(events.at(-2)).toMatchObject({ type: 'failed', job: { id: 'a' } });
+  });
+
+  it('halves adaptive concurrency on a rate limit and grows it after a full round of successes', async () => {
+    const { queue, calls, advance } = createQueue({ concurrency: 4, adaptiveConcurrency: { min: 1, max: 8 } });
+    queue.enqueue(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+    queue.start();
+    await advance(0);
+    expect(queue.concurrency).toBe(4);
+
+    calls[0].reject(new RateLimited());
+    await flushPromises();
+    expect(queue.concurrency).toBe(2);
+
+    // Jobs already in flight when it dropped don't cut it again.
+    calls[1].reject(new RateLimited());
+    await flushPromises();
+    expect(queue.concurrency).toBe(2);
+
+    await advance(1000);
+    calls[2].resolve('done');
+    calls[3].resolve('done');
+    await flushPromises();
+    expect(queue.concurrency).toBe(3);
+  });
+
+  it('stamps jobs with the queue clock when they are queued and started', async () => {
+    const { queue, calls, advance } = createQueue({ throttleDelayMs: 500 });
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+    calls[0].resolve('done');
+    await advance(500);
+    expect(queue.getJob('b')).toMatchObject({ queuedAt: 0, startedAt: 500 });
+  });
+
+  it('waits the throttle delay between dispatches once a job has settled', async () => {
+    const { queue, calls, advance } = createQueue({ throttleDelayMs: 500 });
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+    calls[0].resolve('done');
+
+    await advance(499);
+    expect(calls).toHaveLength(1);
+    await advance(1);
+    expect(calls.map(call => call.id)).toEqual(['a', 'b']);
+  });
+
+  it('dispatches nothing while paused and picks up where it left off on resume', async () => {
+    const { queue, calls, advance } = createQueue({ concurrency: 2, throttleDelayMs: 500 });
+    queue.enqueue(['a', 'b', 'c']);
+    queue.start();
+    await advance(0);
+    expect(calls.map(call => call.id)).toEqual(['a', 'b']);
+
+    calls[0].resolve('done');
+    await flushPromises();
+    queue.pause();
+    await advance(1000);
+    expect(queue.isPaused).toBe(true);
+    expect(calls).toHaveLength(2);
+    expect(queue.getJob('c')?.state).toBe('pending');
+
+    queue.resume();
+    await advance(499);
+    expect(calls).toHaveLength(2);
+    await advance(1);
+    expect(calls.map(call => call.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('pauses when canDispatch refuses and asks again on resume', async () => {
+    let limit = 1;
+    const { queue, calls, events, advance } = createQueue({ concurrency: 2, canDispatch: (_job, inFlight) => inFlight < limit });
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+    expect(calls.map(call => call.id)).toEqual(['a']);
+    expect(queue.isPaused).toBe(true);
+    expect(events.find(event => event.type === 'dispatch-blocked')).toMatchObject({ job: { id: 'b' } });
+
+    limit = 2;
+    queue.resume();
+    await advance(0);
+    expect(calls.map(call => call.id)).toEqual(['a', 'b']);
+  });
+
+  it('dispatches higher priorities first and keeps the order within a priority', async () => {
+    const priorities: Record<string, number> = { c: 1 };
+    const { queue, calls, advance } = createQueue({ getPriority: id => priorities[id] ?? 0 });
+    queue.enqueue(['a', 'b', 'c', 'd']);
+    queue.setPriority('d', 1);
+    queue.reorder(['d', 'c']);
+    queue.start();
+    for (let i = 0; i < 4; i++) {
+      await advance(0);
+      calls[i].resolve('done');
+    }
+    expect(calls.map(call => call.id)).toEqual(['d', 'c', 'a', 'b']);
+  });
+
+  it('puts jobs waiting out their throttle delay back by priority when paused', async () => {
+    const priorities: Record<string, number> = { urgent: 1 };
+    const { queue, calls, advance } = createQueue({ throttleDelayMs: 500, getPriority: id => priorities[id] ?? 0 });
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+    calls[0].resolve('done');
+    await flushPromises();
+
+    // b is now waiting out the throttle delay.
+    queue.enqueue(['urgent']);
+    queue.pause();
+    queue.resume();
+    await advance(500);
+    expect(calls.map(call => call.id)).toEqual(['a', 'urgent']);
+  });
+
+  it('retries failed jobs once the rest of the batch has finished', async () => {
+    const { queue, calls, events, eventTypes, advance } = createQueue({ shouldRetry: job => job.failures < 2 });
+    queue.enqueue(['a', 'b']);
+    queue.start();
+    await advance(0);
+
+    calls[0].reject(new Error('boom'));
+    await advance(0);
+    expect(events.find(event => event.type === 'failed')).toMatchObject({ job: { id: 'a', failures: 1 }, willRetry: true });
+    expect(calls.map(call => call.id)).toEqual(['a', 'b']);
+
+    calls[1].resolve('done');
+    await advance(0);
+    expect(events.find(event => event.type === 'retrying')).toMatchObject({ jobs: [{ id: 'a' }] });
+    expect(calls.map(call => call.id)).toEqual(['a', 'b', 'a']);
+
+    calls[2].reject(new Error('boom again'));
+    await advance(0);
+    expect(events.filter(event => event.type === 'failed').at(-1)).toMatchObject({ job: { id: 'a', failures: 2 }, willRetry: false });
+    expect(eventTypes().at(-1)).toBe('drained');
+    expect(queue.isRunning).toBe(false);
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Lifecycle of a job inside the queue.
+ */
+export type BatchJobState = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  state: BatchJobState;
+  /** Number of times the executor has been invoked for this job. */
+  attempts: number;
+  /** Number of times the job has failed, not counting rate limits. */
+  failures: number;
+  /** Whether the job will run again once everything else has finished. */
+  retryScheduled: boolean;
+  /** Number of consecutive rate limits this job has hit. Drives its backoff. */
+  rateLimitRetries: number;
+  /** Earliest time the job may be dispatched again, in the queue clock's milliseconds. */
+  retryAt?: number;
+  /** When the job was enqueued, in the queue clock's milliseconds. */
+  queuedAt: number;
+  /** When the latest attempt started, in the queue clock's milliseconds. */
+  startedAt?: number;
+  /** Pending jobs with a higher priority are dispatched first. Equal priorities keep their order. */
+  priority: number;
+}
+
+export type BatchQueueEvent<TResult> =
+  | { type: 'started'; job: BatchJob }
+  | { type: 'completed'; job: BatchJob; result: TResult }
+  | { type: 'failed'; job: BatchJob; error: unknown; willRetry: boolean }
+  | { type: 'rate-limited'; job: BatchJob; error: unknown; retryInMs: number; maxRetries: number }
+  | { type: 'cooldown-ended' }
+  | { type: 'concurrency-changed'; concurrency: number }
+  | { type: 'retrying'; jobs: BatchJob[] }
+  | { type: 'dispatch-blocked'; job: BatchJob }
+  | { type: 'drained' };
+
+export type BatchQueueListener<TResult> = (event: BatchQueueEvent<TResult>) => void;
+
+/**
+ * Performs the actual work for a job. Resolving completes the job, rejecting fails it.
+ * The signal is aborted when the job is removed or the queue is stopped; any
+ * result that arrives after that is discarded.
+ */
+export type JobExecutor<TResult> = (job: BatchJob, signal: AbortSignal) => Promise<TResult>;
+
+/**
+ * Timer functions used by the queue. Injectable so the scheduler can be driven by fake timers.
+ */
+export interface QueueTimers {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+  now: () => number;
+}
+
+/**
+ * How rate-limited jobs are retried. The delay doubles with every consecutive
+ * rate limit a job hits, never drops below a delay reported by the API, and is
+ * stretched by a random fraction so requeued jobs don't all retry at once.
+ */
+export interface RateLimitBackoff {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Rate limits a single job may hit before it fails instead of being requeued. */
+  maxRetries: number;
+  /** Up to this fraction of the delay is added at random. */
+  jitterRatio: number;
+}
+
+export const defaultRateLimitBackoff: RateLimitBackoff = {
+  baseDelayMs: 5000,
+  maxDelayMs: 120000,
+  maxRetries: 5,
+  jitterRatio: 0.2,
+};
+
+/**
+ * Bounds for the adaptive concurrency controller. Concurrency grows by one
+ * after a full round of successful jobs and halves on a rate limit or an
+ * overload error, staying within these bounds (AIMD).
+ */
+export interface AdaptiveConcurrency {
+  min: number;
+  max: number;
+}
+
+export interface BatchQueueOptions<TResult> {
+  executor: JobExecutor<TResult>;
+  /** Fixed number of jobs in flight, and the starting point when concurrency is adaptive. */
+  concurrency: number;
+  /** Adjusts concurrency to how the API is coping. Null keeps it fixed. */
+  adaptiveConcurrency?: AdaptiveConcurrency | null;
+  /** Decides whether a failure means the API is overloaded, such as a timeout. Rate limits always count. */
+  isOverloadError?: (error: unknown) => boolean;
+  /** Delay before each dispatch once at least one job has settled. */
+  throttleDelayMs?: number;
+  rateLimitBackoff?: RateLimitBackoff;
+  /** Decides whether an executor error is a rate limit, which requeues the job instead of failing it. */
+  isRateLimitError?: (error: unknown) => boolean;
+  /** Extracts the retry delay the API asked for from a rate-limit error, if it reported one. */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /**
+   * Decides whether a failed job gets another attempt. Retries run once everything
+   * else has finished, so a failing job doesn't hold up the rest of the batch.
+   * `job.failures` already includes the failure being decided on.
+   */
+  shouldRetry?: (job: BatchJob, error: unknown) => boolean;
+  /**
+   * Checked before each dispatch, e.g. against a daily quota. Returning false pauses the
+   * queue with the job still at the front and emits 'dispatch-blocked'; resume() asks again.
+   * @param inFlight Jobs dispatched or running that haven't settled yet.
+   */
+  canDispatch?: (job: BatchJob, inFlight: number) => boolean;
+  /** The priority a job is enqueued with. Change it later with setPriority(). */
+  getPriority?: (id: string) => number;
+  timers?: QueueTimers;
+}
+
+const defaultTimers: QueueTimers = {
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle as ReturnType<typeof globalThis.setTimeout>),
+  now: () => Date.now(),
+};
+
+/**
+ * A framework-agnostic scheduler that runs jobs through an executor in priority
+ * order, with bounded concurrency, request throttling, and a global cooldown with
+ * per-job exponential backoff after rate limits.
+ * The queue only tracks job ids and their state; callers own the job data and
+ * react to the emitted events.
+ */
+export class BatchQueue<TResult> {
+  private options: Required<Omit<BatchQueueOptions<TResult>, 'timers'>>;
+  private timers: QueueTimers;
+  private jobs = new Map<string, BatchJob>();
+  private pending: string[] = [];
+  private listeners = new Set<BatchQueueListener<TResult>>();
+  private dispatchTimers = new Map<string, unknown>();
+  private controllers = new Map<string, AbortController>();
+  private cooldownTimer: unknown = null;
+  private cooldownEndsAt = 0;
+  private activeCount = 0;
+  private settledCount = 0;
+  private running = false;
+  private paused = false;
+  private effectiveConcurrency: number;
+  private successStreak = 0;
+  private lastDecreaseAt = -Infinity;
+
+  constructor(options: BatchQueueOptions<TResult>) {
+    this.options = {
+      throttleDelayMs: 0,
+      rateLimitBackoff: defaultRateLimitBackoff,
+      isRateLimitError: () => false,
+      getRetryAfterMs: () => undefined,
+      adaptiveConcurrency: null,
+      isOverloadError: () => false,
+      shouldRetry: () => false,
+      canDispatch: () => true,
+      getPriority: () => 0,
+      ...options,
+    };
+    this.timers = options.timers ?? defaultTimers;
+    this.effectiveConcurrency = this.clampConcurrency(this.options.concurrency);
+  }
+
+  /**
+   * Registers a listener for queue events.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: BatchQueueListener<TResult>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Updates scheduling options. Takes effect on the next dispatch.
+   */
+  configure(options: Partial<Pick<BatchQueueOptions<TResult>, 'concurrency' | 'adaptiveConcurrency' | 'throttleDelayMs' | 'rateLimitBackoff'>>): void {
+    this.options = { ...this.options, ...options };
+    const base = this.running && this.options.adaptiveConcurrency ? this.effectiveConcurrency : this.options.concurrency;
+    this.setEffectiveConcurrency(base);
+    this.pump();
+  }
+
+  /**
+   * Adds jobs behind every pending job of the same or higher priority. Jobs that are already
+   * pending or running are left untouched.
+   */
+  enqueue(ids: string[]): void {
+    for (const id of ids) {
+      const existing = this.jobs.get(id);
+      if (existing && (existing.state === 'pending' || existing.state === 'running')) {
+        continue;
+      }
+      this.jobs.set(id, {
+        id,
+        state: 'pending',
+        attempts: 0,
+        failures: 0,
+        retryScheduled: false,
+        rateLimitRetries: 0,
+        queuedAt: this.timers.now(),
+        priority: this.options.getPriority(id),
+      });
+      this.insertPending(id, 'back');
+    }
+    this.pump();
+  }
+
+  /**
+   * Changes a job's priority. A pending job moves to the back of its new priority group.
+   */
+  setPriority(id: string, priority: number): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    job.priority = priority;
+    if (this.removePending(id)) {
+      this.insertPending(id, 'back');
+    }
+  }
+
+  /**
+   * Arranges pending jobs in the given order within each priority. Pending jobs that
+   * aren't listed keep their order behind the listed ones of the same priority.
+   */
+  reorder(ids: string[]): void {
+    const rank = new Map(ids.map((id, index) => [id, index]));
+    const position = new Map(this.pending.map((id, index) => [id, index]));
+    this.pending.sort((a, b) =>
+      this.getPendingPriority(b) - this.getPendingPriority(a) ||
+      (rank.get(a) ?? Infinity) - (rank.get(b) ?? Infinity) ||
+      position.get(a)! - position.get(b)!
+    );
+  }
+
+  /**
+   * Forgets a job, aborting it if it is running. No further events are emitted for it.
+   */
+  remove(id: string): void {
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    this.cancelScheduledDispatch(id);
+    this.controllers.get(id)?.abort();
+    this.jobs.delete(id);
+  }
+
+  /**
+   * Removes every job that has not started yet, along with all finished job records.
+   */
+  clear(): void {
+    for (const id of [...this.dispatchTimers.keys()]) {
+      this.cancelScheduledDispatch(id);
+    }
+    this.pending = [];
+    for (const [id, job] of this.jobs) {
+      if (job.state !== 'running') {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Starts dispatching pending jobs.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.paused = false;
+    this.settledCount = 0;
+    this.successStreak = 0;
+    this.setEffectiveConcurrency(this.options.concurrency);
+    this.pump();
+  }
+
+  /**
+   * Stops dispatching new jobs while letting running ones finish. Jobs waiting
+   * out their throttle delay go back to the front of the queue.
+   */
+  pause(): void {
+    if (!this.running || this.paused) return;
+    this.paused = true;
+    const scheduled = [...this.dispatchTimers.keys()];
+    scheduled.forEach(id => this.cancelScheduledDispatch(id));
+    // In reverse, so scheduled jobs of equal priority keep their order at the front of their band.
+    [...scheduled].reverse().forEach(id => this.insertPending(id, 'front'));
+  }
+
+  /**
+   * Continues dispatching after a pause.
+   */
+  resume(): void {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.pump();
+  }
+
+  /**
+   * Stops dispatching, aborts running jobs and drops everything that has not
+   * started yet. Aborted jobs emit no further events.
+   */
+  stop(): void {
+    this.running = false;
+    this.paused = false;
+    this.endCooldown(false);
+    for (const id of [...this.controllers.keys()]) {
+      this.remove(id);
+    }
+    this.clear();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** The number of jobs currently allowed in flight. */
+  get concurrency(): number {
+    return this.effectiveConcurrency;
+  }
+
+  get isCoolingDown(): boolean {
+    return this.cooldownTimer !== null;
+  }
+
+  getJob(id: string): BatchJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  private getPendingPriority(id: string): number {
+    return this.jobs.get(id)?.priority ?? 0;
+  }
+
+  /**
+   * Inserts a job at the front or the back of its priority group, keeping pending sorted by priority.
+   */
+  private insertPending(id: string, position: 'front' | 'back'): void {
+    const priority = this.getPendingPriority(id);
+    const index = this.pending.findIndex(other => position === 'front'
+      ? this.getPendingPriority(other) <= priority
+      : this.getPendingPriority(other) < priority);
+    if (index === -1) {
+      this.pending.push(id);
+    } else {
+      this.pending.splice(index, 0, id);
+    }
+  }
+
+  /**
+   * @returns Whether the job was pending. Jobs waiting out their dispatch delay already left pending.
+   */
+  private removePending(id: string): boolean {
+    const index = this.pending.indexOf(id);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  private emit(event: BatchQueueEvent<TResult>): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private pump(): void {
+    if (!this.running || this.paused || this.isCoolingDown) return;
+
+    while (this.activeCount < this.effectiveConcurrency && this.pending.length > 0) {
+      const id = this.pending[0];
+      const job = this.jobs.get(id);
+      if (!job) {
+        this.pending.shift();
+        continue;
+      }
+      if (!this.options.canDispatch(job, this.activeCount)) {
+        this.paused = true;
+        this.emit({ type: 'dispatch-blocked', job });
+        return;
+      }
+      this.pending.shift();
+
+      job.state = 'running';
+      this.activeCount++;
+      const throttleDelay = this.settledCount > 0 ? this.options.throttleDelayMs : 0;
+      const delay = Math.max(throttleDelay, (job.retryAt ?? 0) - this.timers.now());
+      // Dispatch asynchronously so callers can finish updating their own state first.
+      const handle = this.timers.setTimeout(() => {
+        this.dispatchTimers.delete(id);
+        void this.execute(job);
+      }, delay);
+      this.dispatchTimers.set(id, handle);
+    }
+
+    if (this.activeCount === 0 && this.pending.length === 0) {
+      this.finishBatch();
+    }
+  }
+
+  private cancelScheduledDispatch(id: string): void {
+    const handle = this.dispatchTimers.get(id);
+    if (handle === undefined) return;
+    this.timers.clearTimeout(handle);
+    this.dispatchTimers.delete(id);
+    this.activeCount--;
+    const job = this.jobs.get(id);
+    if (job) {
+      job.state = 'pending';
+    }
+  }
+
+  private async execute(job: BatchJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const startedAt = this.timers.now();
+    job.startedAt = startedAt;
+    job.attempts++;
+    this.emit({ type: 'started', job });
+
+    try {
+      const result = await this.options.executor(job, controller.signal);
+      if (controller.signal.aborted) return;
+      job.state = 'completed';
+      job.rateLimitRetries = 0;
+      this.recordSuccess();
+      this.emit({ type: 'completed', job, result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const isRateLimit = this.options.isRateLimitError(error);
+      if (isRateLimit || this.options.isOverloadError(error)) {
+        this.recordOverload(startedAt);
+      }
+      const { maxRetries } = this.options.rateLimitBackoff;
+      if (isRateLimit && job.rateLimitRetries < maxRetries) {
+        job.rateLimitRetries++;
+        const retryInMs = this.getBackoffDelay(job, error);
+        job.retryAt = this.timers.now() + retryInMs;
+        job.state = 'pending';
+        this.insertPending(job.id, 'front');
+        this.emit({ type: 'rate-limited', job, error, retryInMs, maxRetries });
+        this.beginCooldown(retryInMs);
+      } else {
+        job.state = 'failed';
+        job.failures++;
+        job.retryScheduled = this.options.shouldRetry(job, error);
+        this.emit({ type: 'failed', job, error, willRetry: job.retryScheduled });
+      }
+    } finally {
+      if (this.controllers.get(job.id) === controller) {
+        this.controllers.delete(job.id);
+      }
+      this.activeCount--;
+      this.settledCount++;
+      this.pump();
+    }
+  }
+
+  private clampConcurrency(value: number): number {
+    const bounds = this.options.adaptiveConcurrency;
+    return bounds ? Math.max(bounds.min, Math.min(bounds.max, value)) : value;
+  }
+
+  private setEffectiveConcurrency(value: number): void {
+    const next = this.clampConcurrency(value);
+    if (next === this.effectiveConcurrency) return;
+    this.effectiveConcurrency = next;
+    this.emit({ type: 'concurrency-changed', concurrency: next });
+  }
+
+  /** Additive increase: one more slot after a full round of successes. */
+  private recordSuccess(): void {
+    if (!this.options.adaptiveConcurrency) return;
+    this.successStreak++;
+    if (this.successStreak >= this.effectiveConcurrency) {
+      this.successStreak = 0;
+      this.setEffectiveConcurrency(this.effectiveConcurrency + 1);
+    }
+  }
+
+  /**
+   * Multiplicative decrease: halve the slots. Jobs that were already in flight
+   * when concurrency last dropped don't cut it again, so one burst of failures
+   * only counts once.
+   */
+  private recordOverload(startedAt: number): void {
+    if (!this.options.adaptiveConcurrency) return;
+    this.successStreak = 0;
+    if (startedAt <= this.lastDecreaseAt) return;
+    this.lastDecreaseAt = this.timers.now();
+    this.setEffectiveConcurrency(Math.floor(this.effectiveConcurrency / 2));
+  }
+
+  private getBackoffDelay(job: BatchJob, error: unknown): number {
+    const { baseDelayMs, maxDelayMs, jitterRatio } = this.options.rateLimitBackoff;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (job.rateLimitRetries - 1));
+    const delay = Math.max(exponential, this.options.getRetryAfterMs(error) ?? 0);
+    return Math.round(delay * (1 + Math.random() * jitterRatio));
+  }
+
+  /**
+   * Holds back every dispatch until the given delay has passed. A later rate
+   * limit only ever extends the cooldown, never shortens it.
+   */
+  private beginCooldown(delayMs: number): void {
+    const endsAt = this.timers.now() + delayMs;
+    if (this.isCoolingDown) {
+      if (endsAt <= this.cooldownEndsAt) return;
+      this.timers.clearTimeout(this.cooldownTimer);
+    }
+    this.cooldownEndsAt = endsAt;
+    this.cooldownTimer = this.timers.setTimeout(() => this.endCooldown(true), delayMs);
+  }
+
+  private endCooldown(notify: boolean): void {
+    if (this.cooldownTimer === null) return;
+    this.timers.clearTimeout(this.cooldownTimer);
+    this.cooldownTimer = null;
+    if (notify) {
+      this.emit({ type: 'cooldown-ended' });
+      this.pump();
+    }
+  }
+
+  private finishBatch(): void {
+    const retriable = [...this.jobs.values()].filter(job => job.state === 'failed' && job.retryScheduled);
+    if (retriable.length > 0) {
+      for (const job of retriable) {
+        job.state = 'pending';
+        job.retryScheduled = false;
+        this.insertPending(job.id, 'back');
+      }
+      this.emit({ type: 'retrying', jobs: retriable });
+      this.pump();
+      return;
+    }
+    this.running = false;
+    this.emit({ type: 'drained' });
+  }
+}
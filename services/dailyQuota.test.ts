@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyQuota } from '../types';
+import { hasQuotaRoom, readQuotaUsedToday, recordImageRequestToday } from './dailyQuota';
+
+/** An in-memory stand-in for localStorage. */
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+const quota = (overrides: Partial<DailyQuota>): DailyQuota => ({ limit: 10, unit: 'images', warningPercent: 70, ...overrides });
+
+describe('hasQuotaRoom', () => {
+  it('always has room without a limit', () => {
+    expect(hasQuotaRoom(quota({ limit: null }), 1000, 50, 0)).toBe(true);
+  });
+
+  it('reserves a share of an images quota for every job in flight', () => {
+    expect(hasQuotaRoom(quota({ unit: 'images' }), 7, 2, 0)).toBe(true);
+    expect(hasQuotaRoom(quota({ unit: 'images' }), 7, 3, 0)).toBe(false);
+    // Sent requests don't count towards images; they only count once they finish.
+    expect(hasQuotaRoom(quota({ unit: 'images' }), 7, 3, 3)).toBe(false);
+  });
+
+  it('does not count a request twice once it is sent and already in the stored count', () => {
+    // 8 stored, 2 of which belong to jobs still in flight, plus 1 job not yet sent: 9 of 10.
+    expect(hasQuotaRoom(quota({ unit: 'requests' }), 8, 3, 2)).toBe(true);
+    expect(hasQuotaRoom(quota({ unit: 'requests' }), 8, 3, 1)).toBe(false);
+  });
+});
+
+describe('daily counts in storage', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    vi.stubGlobal('window', { parent: undefined, localStorage: storage });
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('counts requests for the current Pacific day and starts over on the next', () => {
+    vi.setSystemTime(new Date('2026-03-10T06:00:00Z'));
+    expect(recordImageRequestToday()).toBe(1);
+    expect(recordImageRequestToday()).toBe(2);
+    expect(readQuotaUsedToday('requests')).toBe(2);
+
+    vi.setSystemTime(new Date('2026-03-10T07:00:00Z'));
+    expect(readQuotaUsedToday('requests')).toBe(0);
+    expect(recordImageRequestToday()).toBe(1);
+  });
+
+  it('reads the images unit from the processed image count', () => {
+    vi.setSystemTime(new Date('2026-03-10T20:00:00Z'));
+    storage.setItem('processedImageStats', JSON.stringify({ count: 4, date: '2026-03-10' }));
+    recordImageRequestToday();
+    expect(readQuotaUsedToday('images')).toBe(4);
+    expect(readQuotaUsedToday('requests')).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import type { DailyQuota, QuotaUnit } from '../types';
+import { safeLocalStorage } from './safeLocalStorage';
+import { getPacificToday } from './usageHistory';
+
+const IMAGE_REQUEST_STATS_KEY = 'imageRequestStats';
+const PROCESSED_IMAGE_STATS_KEY = 'processedImageStats';
+
+/**
+ * How much of the daily quota is used. Read from storage rather than state so a run that
+ * crosses the Pacific midnight starts counting from zero.
+ */
+export const readQuotaUsedToday = (unit: QuotaUnit): number => {
+  const todayStr = getPacificToday();
+  try {
+    const storedStatsRaw = safeLocalStorage.getItem(unit === 'images' ? PROCESSED_IMAGE_STATS_KEY : IMAGE_REQUEST_STATS_KEY);
+    const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+    return storedStats && storedStats.date === todayStr ? storedStats.count : 0;
+  } catch (error) {
+    console.error("Failed to read daily usage from localStorage", error);
+    return 0;
+  }
+};
+
+/**
+ * Counts one image request sent today, whether or not it gets a response.
+ * @returns Today's count including it, or null when storage failed.
+ */
+export const recordImageRequestToday = (): number | null => {
+  const todayStr = getPacificToday();
+  try {
+    const storedStatsRaw = safeLocalStorage.getItem(IMAGE_REQUEST_STATS_KEY);
+    const storedStats = storedStatsRaw ? JSON.parse(storedStatsRaw) : null;
+    const newCount = (storedStats && storedStats.date === todayStr ? storedStats.count : 0) + 1;
+    safeLocalStorage.setItem(IMAGE_REQUEST_STATS_KEY, JSON.stringify({ count: newCount, date: todayStr }));
+    return newCount;
+  } catch (error) {
+    console.error("Failed to update image request count in localStorage", error);
+    return null;
+  }
+};
+
+/**
+ * Whether one more job fits in the daily quota. Jobs in flight hold their share until they
+ * count: images once they finish, requests once sent.
+ * @param usedToday What storage has counted today, from readQuotaUsedToday.
+ * @param inFlight Jobs currently running.
+ * @param sentInFlight Running jobs whose request is already sent, and so already in usedToday for the requests unit.
+ */
+export const hasQuotaRoom = (quota: DailyQuota, usedToday: number, inFlight: number, sentInFlight: number): boolean => {
+  if (quota.limit === null) return true;
+  const reserved = quota.unit === 'requests' ? inFlight - sentInFlight : inFlight;
+  return usedToday + reserved < quota.limit;
+};
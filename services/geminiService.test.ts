@@ -0,0 +1,96 @@
+import { ApiError } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthFailedError, InvalidInputError, RateLimitError, RequestCancelledError, TimeoutError, UnknownApiError } from './apiErrors';
+import { parseRetryDelayMs, resolveEditResponse, toApiRequestError } from './geminiService';
+
+const rateLimitMessage = 'Rate limited.';
+
+describe('toApiRequestError', () => {
+  it('classifies a 429 as a rate limit', () => {
+    const error = toApiRequestError(new ApiError({ message: 'Too Many Requests', status: 429 }), rateLimitMessage);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe(rateLimitMessage);
+  });
+
+  it('classifies RESOURCE_EXHAUSTED as a rate limit without a status', () => {
+    const error = toApiRequestError(new Error('{"error":{"message":"Quota exceeded","status":"RESOURCE_EXHAUSTED"}}'), rateLimitMessage);
+    expect(error).toBeInstanceOf(RateLimitError);
+  });
+
+  it('reads the status from the message when the SDK only gives a plain Error', () => {
+    expect(toApiRequestError(new Error('got status: 429 Too Many Requests'), rateLimitMessage)).toBeInstanceOf(RateLimitError);
+    expect(toApiRequestError(new Error('got status: 403 Forbidden'), rateLimitMessage)).toBeInstanceOf(AuthFailedError);
+  });
+
+  it('tells an invalid key apart from other bad requests, though both are 400s', () => {
+    const invalidKey = toApiRequestError(new ApiError({ message: 'API key not valid. Please pass a valid API key.', status: 400 }), rateLimitMessage);
+    const badRequest = toApiRequestError(new ApiError({ message: 'Request contains an invalid argument.', status: 400 }), rateLimitMessage);
+    expect(invalidKey).toBeInstanceOf(AuthFailedError);
+    expect(badRequest).toBeInstanceOf(InvalidInputError);
+  });
+
+  it('keeps errors that are already classified and wraps anything else as unknown', () => {
+    const timeout = new TimeoutError('Timed out.');
+    expect(toApiRequestError(timeout, rateLimitMessage)).toBe(timeout);
+    expect(toApiRequestError(new Error('socket hang up'), rateLimitMessage)).toBeInstanceOf(UnknownApiError);
+    expect(toApiRequestError('not an error', rateLimitMessage)).toBeInstanceOf(UnknownApiError);
+  });
+});
+
+describe('parseRetryDelayMs', () => {
+  it('reads the RetryInfo detail', () => {
+    const message = '{"error":{"code":429,"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay": "8s"}]}}';
+    expect(parseRetryDelayMs(message)).toBe(8000);
+  });
+
+  it('reads the delay from the message text, rounding fractions up to whole milliseconds', () => {
+    expect(parseRetryDelayMs('Resource has been exhausted. Please retry in 8s.')).toBe(8000);
+    expect(parseRetryDelayMs('Please retry in 8.2504s.')).toBe(8251);
+  });
+
+  it('returns undefined when the error names no delay', () => {
+    expect(parseRetryDelayMs('Resource has been exhausted (e.g. check quota).')).toBeUndefined();
+  });
+
+  it('carries the delay on the RateLimitError for the queue backoff', () => {
+    const error = toApiRequestError(new ApiError({ message: 'Please retry in 8s.', status: 429 }), rateLimitMessage);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(8000);
+  });
+});
+
+describe('resolveEditResponse', () => {
+  beforeEach(() => {
+    // The service schedules on window, which Node doesn't have.
+    vi.stubGlobal('window', globalThis);
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('fails with a TimeoutError when the response takes too long', async () => {
+    const result = resolveEditResponse(new Promise(() => {}), 'image/png', 1000);
+    const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('fails with a RequestCancelledError, not a timeout, when aborted', async () => {
+    const controller = new AbortController();
+    const result = resolveEditResponse(new Promise(() => {}), 'image/png', 1000, controller.signal);
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  it('reports a request that failed after being aborted as cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = resolveEditResponse(Promise.reject(new Error('The operation was aborted.')), 'image/png', 1000, controller.signal);
+    await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
@@ -1,119 +1,388 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { ApiError, Candidate, GoogleGenAI, GenerateContentConfig, GenerateContentResponse, HarmBlockThreshold, HarmCategory, Modality } from "@google/genai";
+import type { EditOptions, EditResult, ImageEditProvider, ModelOption, RequestOptions } from "./providers";
+import type { GenerationSettings, ResponseMetadata, SafetyThreshold } from "../types";
+import {
+  ApiRequestError,
+  AuthFailedError,
+  InvalidInputError,
+  RateLimitError,
+  RequestCancelledError,
+  SafetyBlockedError,
+  TextInsteadOfImageError,
+  TimeoutError,
+  UnknownApiError,
+} from "./apiErrors";
+import { base64ToBlob, blobToBase64 } from "./imageBlobs";
+import { PooledKey, acquireKey, getPoolSize, getTimeUntilKeyAvailable, markKeyRateLimited, recordKeyUsage, setPoolKeys } from "./apiKeyPool";
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+/** The key baked in at build time, if the deployment has one. */
+export const builtInApiKey: string | undefined = process.env.API_KEY || undefined;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Pool id of the built-in key, used when no keys have been added in settings. */
+export const BUILT_IN_KEY_ID = 'built-in';
+
+// Clients are created on first use, so the app can start without a key and
+// pick keys up from settings later.
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (key: string): GoogleGenAI => {
+  let client = clients.get(key);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: key });
+    clients.set(key, client);
+  }
+  return client;
+};
 
 /**
- * Custom error for API rate limiting (429).
+ * Sets the keys requests are spread across. Without any, the built-in key is used.
  */
-export class RateLimitError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "RateLimitError";
+export const setApiKeys = (keys: PooledKey[]): void => {
+  if (keys.length > 0) {
+    setPoolKeys(keys);
+  } else {
+    setPoolKeys(builtInApiKey ? [{ id: BUILT_IN_KEY_ID, key: builtInApiKey }] : []);
   }
-}
+};
 
+/**
+ * Reads the HTTP status of a failed request, either from the SDK's ApiError or
+ * from the status the message embeds (e.g. "got status: 429 Too Many Requests").
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  if (error instanceof ApiError) {
+    return error.status;
+  }
+  if (error instanceof Error) {
+    const match = error.message.match(/(?:status:?\s*|\[)(\d{3})\b/i) || error.message.match(/"code":\s*(\d{3})/);
+    return match ? Number(match[1]) : undefined;
+  }
+  return undefined;
+};
 
 /**
- * Edits an image using the Gemini API (nanobanana model).
- * @param base64ImageData The base64 encoded string of the image data.
- * @param mimeType The MIME type of the image.
- * @param prompt The editing instruction for the model.
- * @returns A promise that resolves to the base64 encoded string of the edited image.
+ * Extracts the retry delay from a rate-limit error. Gemini reports it as a
+ * RetryInfo detail ("retryDelay": "37s") and in the message ("Please retry in 37.2s").
+ * @returns The delay in milliseconds, or undefined when the error doesn't state one.
  */
-export const editImage = async (
-  base64ImageData: string,
-  mimeType: string,
-  prompt: string
-): Promise<string> => {
+export const parseRetryDelayMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Turns a failed SDK call into the ApiRequestError for its category.
+ * @param rateLimitMessage What to tell the user when the request was rate limited.
+ */
+export const toApiRequestError = (error: unknown, rateLimitMessage: string): ApiRequestError => {
+  if (error instanceof ApiRequestError) {
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new UnknownApiError("An unknown error occurred during the API call.", error);
+  }
+  const status = getErrorStatus(error);
+  const message = `API call failed: ${error.message}`;
+  if (status === 429 || error.message.includes('RESOURCE_EXHAUSTED')) {
+    return new RateLimitError(rateLimitMessage, parseRetryDelayMs(error.message), error);
+  }
+  // An invalid key is reported as a 400, so check for it before other bad requests.
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/.test(error.message)) {
+    return new AuthFailedError(message, error);
+  }
+  if (status === 400 || error.message.includes('INVALID_ARGUMENT')) {
+    return new InvalidInputError(message, error);
+  }
+  return new UnknownApiError(message, error);
+};
+
+/**
+ * Sends a request with the next available key from the pool. When a key is
+ * rate limited it rests on its own and the request moves on to another key;
+ * only when every key is resting does the caller see a RateLimitError, carrying
+ * the time until the first key is back. A lone key that was rate limited without
+ * a retry delay doesn't rest, so the caller's backoff decides when to try again.
+ * @param request Sends the request with the given client.
+ * @param rateLimitMessage What to tell the user when every key is rate limited.
+ */
+const withPooledKey = async <T>(request: (client: GoogleGenAI) => Promise<T>, rateLimitMessage: string): Promise<T> => {
+  if (getPoolSize() === 0) {
+    throw new AuthFailedError("No API key set. Add one in API Key Settings.");
+  }
+  for (;;) {
+    const pooledKey = acquireKey();
+    if (!pooledKey) {
+      throw new RateLimitError(rateLimitMessage, getTimeUntilKeyAvailable());
+    }
+    recordKeyUsage(pooledKey.id);
+    try {
+      return await request(getClient(pooledKey.key));
+    } catch (error) {
+      const apiError = error instanceof RequestCancelledError ? null : toApiRequestError(error, rateLimitMessage);
+      if (!(apiError instanceof RateLimitError)) {
+        throw error;
+      }
+      if (getPoolSize() === 1 && apiError.retryAfterMs === undefined) {
+        throw apiError;
+      }
+      markKeyRateLimited(pooledKey.id, apiError.retryAfterMs);
+    }
+  }
+};
+
+/** The parts of a response that image requests read. Mock responses may leave out everything but the candidates. */
+type ImageResponse = Pick<GenerateContentResponse, 'candidates' | 'usageMetadata' | 'promptFeedback'>;
+
+const safetyFinishReasons = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Collects what a response said besides its images.
+ * @param candidate The candidate whose safety ratings to keep.
+ */
+const toResponseMetadata = (response: ImageResponse, candidate: Candidate | undefined): ResponseMetadata => {
+  const candidates = response.candidates || [];
+  const text = candidates
+    .flatMap(c => c.content?.parts || [])
+    .map(part => part.text)
+    .filter(Boolean)
+    .join('\n');
+  return {
+    text: text || undefined,
+    finishReasons: candidates.map(c => c.finishReason || 'UNSPECIFIED'),
+    safetyRatings: (candidate?.safetyRatings || []).map(rating => ({
+      category: rating.category || 'UNSPECIFIED',
+      probability: rating.probability || 'UNSPECIFIED',
+      blocked: rating.blocked,
+    })),
+    blockReason: response.promptFeedback?.blockReason,
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    outputTokens: response.usageMetadata?.candidatesTokenCount,
+    totalTokens: response.usageMetadata?.totalTokenCount,
+  };
+};
+
+const withMetadata = <T extends ApiRequestError>(error: T, metadata: ResponseMetadata): T => {
+  error.metadata = metadata;
+  return error;
+};
+
+/**
+ * Waits for an image-editing request and extracts the edited images from its response.
+ * Shared by every provider that speaks the Gemini response format, so they all
+ * surface timeouts, rate limits, text replies and safety blocks the same way.
+ * @param apiCall The pending generateContent request.
+ * @param fallbackMimeType The MIME type to use when the response doesn't state one.
+ * @param timeoutMs How long to wait before giving up on the request.
+ * @param signal Rejects the request with a RequestCancelledError when aborted.
+ * @returns A promise that resolves to one image per candidate that contained one, and the response metadata.
+ * Errors derived from the response carry the metadata too.
+ */
+export const resolveEditResponse = async (
+  apiCall: Promise<ImageResponse>,
+  fallbackMimeType: string,
+  timeoutMs: number = 60000,
+  signal?: AbortSignal
+): Promise<EditResult> => {
   let timeoutId: number | undefined;
 
   const timeoutPromise = new Promise<never>((_, reject) => {
     // FIX: Use window.setTimeout to ensure the browser's implementation is used, which returns a number, resolving the type conflict with NodeJS.Timeout.
     timeoutId = window.setTimeout(() => {
-      reject(new Error("Request timed out after 60 seconds"));
-    }, 60000);
+      reject(new TimeoutError(`API call failed: Request timed out after ${timeoutMs / 1000} seconds`, { timeoutMs }));
+    }, timeoutMs);
   });
 
-  const apiCall = ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: base64ImageData,
-            mimeType: mimeType,
-          },
-        },
-        {
-          text: prompt,
-        },
-      ],
-    },
-    config: {
-      // FIX: Per Gemini API guidelines, responseModalities for image editing must only contain Modality.IMAGE.
-      responseModalities: [Modality.IMAGE],
-    },
+  let onAbort: (() => void) | undefined;
+  const abortPromise = new Promise<never>((_, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+    }
+    onAbort = () => reject(new RequestCancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 
-  try {
-    const response = await Promise.race([apiCall, timeoutPromise]);
+  // Whichever promises lose the race may still reject later; nothing else is listening by then.
+  [apiCall, timeoutPromise, abortPromise].forEach(promise => promise.catch(() => {}));
 
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  try {
+    const response = await Promise.race([apiCall, timeoutPromise, abortPromise]);
 
-    if (imagePart?.inlineData) {
-      return imagePart.inlineData.data;
+    const images: Blob[] = [];
+    for (const candidate of response.candidates || []) {
+      const imagePart = candidate.content?.parts?.find(part => part.inlineData?.data);
+      if (imagePart?.inlineData?.data) {
+        images.push(base64ToBlob(imagePart.inlineData.data, imagePart.inlineData.mimeType || fallbackMimeType));
+      }
+    }
+    if (images.length > 0) {
+      const imageCandidate = response.candidates?.find(c => c.content?.parts?.some(part => part.inlineData?.data));
+      return { images, metadata: toResponseMetadata(response, imageCandidate) };
     }
 
-    const textPart = response.candidates?.[0]?.content?.parts?.find(part => part.text);
-    const safetyRatings = response.candidates?.[0]?.safetyRatings;
+    // No candidate had an image, so explain the failure from the first one.
+    const candidate = response.candidates?.[0];
+    const metadata = toResponseMetadata(response, candidate);
+
+    const textPart = candidate?.content?.parts?.find(part => part.text);
+    const safetyRatings = candidate?.safetyRatings;
     
-    let errorMessage = "Image generation failed. No image data received from the API.";
+    if (metadata.blockReason) {
+        throw withMetadata(new SafetyBlockedError(`API call failed: The prompt was blocked (${metadata.blockReason}). Please try a different prompt or image.`, response), metadata);
+    }
     if (textPart?.text) {
-        errorMessage = `API returned text instead of image: ${textPart.text}`;
-    } else if (safetyRatings?.some(rating => rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW')) {
-        errorMessage = "Image could not be generated due to safety settings. Please try a different prompt or image.";
+        throw withMetadata(new TextInsteadOfImageError(`API call failed: API returned text instead of image: ${textPart.text}`, candidate), metadata);
+    }
+    if (
+      safetyRatings?.some(rating => rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW') ||
+      (candidate?.finishReason && safetyFinishReasons.includes(candidate.finishReason))
+    ) {
+        throw withMetadata(new SafetyBlockedError("API call failed: Image could not be generated due to safety settings. Please try a different prompt or image.", candidate), metadata);
     }
 
-    throw new Error(errorMessage);
+    throw withMetadata(new UnknownApiError("API call failed: Image generation failed. No image data received from the API.", response), metadata);
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    if (error instanceof Error) {
-        if (error.message.includes('429')) {
-             throw new RateLimitError('API rate limit exceeded. The request will be retried automatically.');
-        }
-        throw new Error(`API call failed: ${error.message}`);
+    if (error instanceof RequestCancelledError || signal?.aborted) {
+        throw new RequestCancelledError();
     }
-    throw new Error("An unknown error occurred during the API call.");
+    console.error("Gemini API Error:", error);
+    throw toApiRequestError(error, 'API rate limit exceeded. The request will be retried automatically.');
   } finally {
       window.clearTimeout(timeoutId);
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+  }
+};
+
+/** Gemini models that can edit images. */
+export const geminiEditModels: ModelOption[] = [
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image (Nano Banana)' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (Preview)' },
+];
+
+/** Gemini models used for tagging and prompt enhancement. */
+export const geminiTextModels: ModelOption[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+];
+
+const safetyThresholds: Record<Exclude<SafetyThreshold, 'default'>, HarmBlockThreshold> = {
+  blockNone: HarmBlockThreshold.BLOCK_NONE,
+  blockOnlyHigh: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  blockMediumAndAbove: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  blockLowAndAbove: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+const safetyCategories = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+/**
+ * Maps generation settings onto the request config, leaving unset values to the API defaults.
+ */
+const toGenerationConfig = (generation: GenerationSettings): GenerateContentConfig => {
+  const config: GenerateContentConfig = { candidateCount: generation.candidateCount };
+  if (generation.temperature !== undefined) {
+    config.temperature = generation.temperature;
+  }
+  if (generation.seed !== undefined) {
+    config.seed = generation.seed;
   }
+  if (generation.safetyThreshold !== 'default') {
+    const threshold = safetyThresholds[generation.safetyThreshold];
+    config.safetySettings = safetyCategories.map(category => ({ category, threshold }));
+  }
+  return config;
+};
+
+/**
+ * Sends images and a prompt to an image model and returns the images it produced.
+ * @param images The source and input images, in the order the prompt refers to them. May be empty.
+ * @param fallbackMimeType The MIME type to use when the response doesn't state one.
+ */
+const requestImages = async (
+  images: Blob[],
+  prompt: string,
+  fallbackMimeType: string,
+  { model, signal, generation, references = [], onRequestSent }: EditOptions
+): Promise<EditResult> => {
+  // Images go first, in order, so the prompt can refer to them as image 1, 2, ...
+  // and the model treats the references after them as guidance.
+  const imageParts = await Promise.all([...images, ...references].map(async image => ({
+    inlineData: {
+      data: await blobToBase64(image),
+      mimeType: image.type,
+    },
+  })));
+  return withPooledKey(client => {
+    onRequestSent?.();
+    return resolveEditResponse(client.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          ...imageParts,
+          {
+            text: prompt,
+          },
+        ],
+      },
+      config: {
+        ...toGenerationConfig(generation),
+        // FIX: Per Gemini API guidelines, responseModalities for image editing must only contain Modality.IMAGE.
+        responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
+      },
+    }), fallbackMimeType, generation.timeoutSeconds * 1000, signal);
+  }, 'API rate limit exceeded. The request will be retried automatically.');
+};
+
+/**
+ * Edits an image using the Gemini API.
+ * @param image The image to edit.
+ * @param prompt The editing instruction for the model.
+ * @param options The model, generation settings, further input and reference images, and a signal that aborts the in-flight request.
+ * @returns A promise that resolves to the edited images, one per returned candidate, and the response metadata.
+ */
+export const editImage = async (image: Blob, prompt: string, options: EditOptions): Promise<EditResult> => {
+  return requestImages([image, ...(options.inputs || [])], prompt, image.type, options);
+};
+
+/**
+ * Generates images from a prompt alone using the Gemini API.
+ * @param prompt A description of the image to create.
+ * @param options The model, generation settings, reference images and a signal that aborts the in-flight request.
+ * @returns A promise that resolves to the generated images, one per returned candidate, and the response metadata.
+ */
+export const generateImage = async (prompt: string, options: EditOptions): Promise<EditResult> => {
+  return requestImages(options.inputs || [], prompt, 'image/png', options);
 };
 
 /**
  * Generates descriptive tags for an image using the Gemini API.
- * @param base64ImageData The base64 encoded string of the image data.
- * @param mimeType The MIME type of the image.
+ * @param image The image to describe.
  * @param systemPrompt The system instruction for the model.
+ * @param options The model to use and a signal that aborts the in-flight request.
  * @returns A promise that resolves to a comma-separated string of tags.
  */
 export const getTagsFromImage = async (
-  base64ImageData: string,
-  mimeType: string,
-  systemPrompt: string
+  image: Blob,
+  systemPrompt: string,
+  { model, signal }: RequestOptions
 ): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const base64ImageData = await blobToBase64(image);
+    const response = await withPooledKey(client => client.models.generateContent({
+      model,
       contents: {
         parts: [
           {
             inlineData: {
               data: base64ImageData,
-              mimeType: mimeType,
+              mimeType: image.type,
             },
           },
           {
@@ -123,8 +392,9 @@ export const getTagsFromImage = async (
       },
       config: {
         systemInstruction: systemPrompt,
+        abortSignal: signal,
       },
-    });
+    }), 'API rate limit exceeded. The request will be retried automatically.');
 
     const text = response.text;
     if (text) {
@@ -133,23 +403,21 @@ export const getTagsFromImage = async (
 
     throw new Error("Tag generation failed. No text data received from the API.");
   } catch (error) {
-    console.error("Gemini API Error (getTagsFromImage):", error);
-    if (error instanceof Error) {
-        if (error.message.includes('429')) {
-             throw new RateLimitError('API rate limit exceeded. The request will be retried automatically.');
-        }
-        throw new Error(`API call failed: ${error.message}`);
+    if (signal?.aborted) {
+        throw new RequestCancelledError();
     }
-    throw new Error("An unknown error occurred during the API call.");
+    console.error("Gemini API Error (getTagsFromImage):", error);
+    throw toApiRequestError(error, 'API rate limit exceeded. The request will be retried automatically.');
   }
 };
 
 /**
  * Enhances a user's prompt using the Gemini API to generate better tags and a description.
  * @param userPrompt The user's current editing prompt.
+ * @param options The model to use.
  * @returns A promise that resolves to an enhanced prompt string.
  */
-export const enhancePrompt = async (userPrompt: string): Promise<string> => {
+export const enhancePrompt = async (userPrompt: string, { model }: RequestOptions): Promise<string> => {
   const systemInstruction = `You are an expert prompt engineer for AI image generation models that use Danbooru-style tags. A user will provide their current prompt. Your task is to analyze, refine, and enhance it into a high-quality prompt.
 The enhanced prompt must be a single string and should follow these rules:
 1.  Start with essential quality tags like 'masterpiece, best quality, high resolution, absurdres'.
@@ -163,13 +431,13 @@ Example User Prompt: "1girl, solo, looking at viewer, make her hair long and blo
 Example Enhanced Output: "masterpiece, best quality, high resolution, absurdres, 1girl, solo, looking_at_viewer, long_hair, blonde_hair, wearing_crown, jewelry, royalty, elegant. A beautiful royal girl with long blonde hair is wearing a crown."`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const response = await withPooledKey(client => client.models.generateContent({
+      model,
       contents: { parts: [{ text: userPrompt }] },
       config: {
         systemInstruction: systemInstruction,
       },
-    });
+    }), 'API rate limit exceeded. Please try again in a moment.');
 
     const text = response.text;
     if (text) {
@@ -179,12 +447,38 @@ Example Enhanced Output: "masterpiece, best quality, high resolution, absurdres,
     throw new Error("Prompt enhancement failed. No text data received from the API.");
   } catch (error) {
     console.error("Gemini API Error (enhancePrompt):", error);
-    if (error instanceof Error) {
-        if (error.message.includes('429')) {
-             throw new RateLimitError('API rate limit exceeded. Please try again in a moment.');
-        }
-        throw new Error(`API call failed: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred during the API call.");
+    throw toApiRequestError(error, 'API rate limit exceeded. Please try again in a moment.');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Checks that a key is accepted by the API by looking up a model, which costs no generation quota.
+ * @param key The key to check.
+ * @throws An ApiRequestError describing why the key was rejected.
+ */
+export const validateApiKey = async (key: string): Promise<void> => {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.get({ model: 'gemini-2.5-flash' });
+  } catch (error) {
+    throw toApiRequestError(error, 'API rate limit exceeded. Please try again in a moment.');
+  }
+};
+
+/**
+ * The default provider, backed by the Gemini API.
+ */
+export const geminiProvider: ImageEditProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: {
+    tagging: true,
+    promptEnhancement: true,
+    textToImage: true,
+  },
+  editModels: geminiEditModels,
+  textModels: geminiTextModels,
+  edit: editImage,
+  generate: generateImage,
+  tag: getTagsFromImage,
+  enhance: enhancePrompt,
+};
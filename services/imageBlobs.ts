@@ -0,0 +1,67 @@
+// Object URLs are created on first use and kept until no image references the blob anymore.
+const objectUrls = new Map<Blob, string>();
+
+/**
+ * Returns an object URL for displaying a blob, creating it lazily.
+ */
+export const getObjectUrl = (blob: Blob): string => {
+  let url = objectUrls.get(blob);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(blob, url);
+  }
+  return url;
+};
+
+/**
+ * Revokes the object URLs of every blob that is not in the given set, so the
+ * browser can free the underlying image data.
+ */
+export const releaseUnusedObjectUrls = (liveBlobs: Set<Blob>): void => {
+  for (const [blob, url] of objectUrls) {
+    if (!liveBlobs.has(blob)) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(blob);
+    }
+  }
+};
+
+/**
+ * Encodes a blob as base64. Only needed at the API boundary.
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.substring(header.indexOf(':') + 1, header.indexOf(';')) || 'image/png';
+  return base64ToBlob(base64, mimeType);
+};
+
+/**
+ * Triggers a browser download of a blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
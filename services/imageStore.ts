@@ -0,0 +1,137 @@
+import { ImageFile, ImageStatus, EditHistory, ReferenceImage } from '../types';
+import { dataUrlToBlob } from './imageBlobs';
+
+const DB_NAME = 'nanobanana-batch-editor';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const ORDER_KEY = 'imageOrder';
+const RUN_REFERENCES_KEY = 'runReferenceImages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+type LegacyImageRecord = Omit<ImageFile, 'originalBlob' | 'history'> & {
+  originalBlob?: Blob;
+  originalDataUrl?: string;
+  editedDataUrl?: string;
+  history?: (EditHistory & { dataUrl?: string })[];
+};
+
+/**
+ * Converts records saved before image data was stored as blobs.
+ */
+const upgradeRecord = (record: LegacyImageRecord): ImageFile => {
+  if (record.originalBlob) return record as ImageFile;
+  const { originalDataUrl, editedDataUrl, history, ...rest } = record;
+  return {
+    ...rest,
+    originalBlob: originalDataUrl ? dataUrlToBlob(originalDataUrl) : record.file,
+    editedBlob: editedDataUrl ? dataUrlToBlob(editedDataUrl) : undefined,
+    history: history?.map(({ dataUrl, ...entry }) => ({ ...entry, blob: dataUrl ? dataUrlToBlob(dataUrl) : entry.blob })),
+  };
+};
+
+/**
+ * Loads the images saved by a previous session, in their original order.
+ * Images that were mid-request when the page went away are put back in the queue.
+ */
+export const loadImages = async (): Promise<ImageFile[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, META_STORE], 'readonly');
+  const [records, order] = await Promise.all([
+    promisifyRequest<LegacyImageRecord[]>(transaction.objectStore(IMAGES_STORE).getAll()),
+    promisifyRequest<string[] | undefined>(transaction.objectStore(META_STORE).get(ORDER_KEY)),
+  ]);
+
+  const position = new Map((order || []).map((id, index) => [id, index]));
+  return records
+    .map(upgradeRecord)
+    .sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity))
+    .map(img => img.status === ImageStatus.PROCESSING ? { ...img, status: ImageStatus.QUEUED } : img);
+};
+
+/**
+ * Writes the difference between the last saved snapshot and the current images.
+ * Image records are immutable in the app, so only records whose object identity
+ * changed are rewritten, which keeps saves cheap while a batch is running.
+ * @param saved The records as of the last successful save, keyed by id.
+ * @param images The current images.
+ * @returns The new snapshot to pass to the next call.
+ */
+export const saveImages = async (saved: Map<string, ImageFile>, images: ImageFile[]): Promise<Map<string, ImageFile>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, META_STORE], 'readwrite');
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+  const next = new Map(images.map(img => [img.id, img]));
+
+  for (const img of images) {
+    if (saved.get(img.id) !== img) {
+      imagesStore.put(img);
+    }
+  }
+  for (const id of saved.keys()) {
+    if (!next.has(id)) {
+      imagesStore.delete(id);
+    }
+  }
+  transaction.objectStore(META_STORE).put(images.map(img => img.id), ORDER_KEY);
+
+  await promisifyTransaction(transaction);
+  return next;
+};
+
+/**
+ * Loads the reference images sent with every image of a run.
+ */
+export const loadRunReferenceImages = async (): Promise<ReferenceImage[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readonly');
+  const references = await promisifyRequest<ReferenceImage[] | undefined>(transaction.objectStore(META_STORE).get(RUN_REFERENCES_KEY));
+  return references || [];
+};
+
+export const saveRunReferenceImages = async (references: ReferenceImage[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(references, RUN_REFERENCES_KEY);
+  await promisifyTransaction(transaction);
+};
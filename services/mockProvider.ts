@@ -0,0 +1,264 @@
+import { FinishReason, GenerateContentResponse, HarmCategory, HarmProbability } from "@google/genai";
+import { resolveEditResponse } from "./geminiService";
+import { RequestCancelledError } from "./apiErrors";
+import { blobToBase64 } from "./imageBlobs";
+import type { EditOptions, EditResult, ImageEditProvider, RequestOptions } from "./providers";
+
+/**
+ * Failures the mock provider can inject to exercise the error handling in the app.
+ */
+export type MockFailureMode = 'rateLimit' | 'timeout' | 'textInsteadOfImage' | 'safetyBlock';
+
+export const mockFailureModes: { key: MockFailureMode; label: string }[] = [
+  { key: 'rateLimit', label: '429 Rate Limit' },
+  { key: 'timeout', label: 'Timeout' },
+  { key: 'textInsteadOfImage', label: 'Text Instead of Image' },
+  { key: 'safetyBlock', label: 'Safety Block' },
+];
+
+export interface MockProviderConfig {
+  /** Simulated network latency for every request. */
+  latencyMs: number;
+  /** Every Nth edit request fails with the next enabled failure mode. 0 disables failures. */
+  failEvery: number;
+  failureModes: MockFailureMode[];
+  /** Caps the run's timeout for mock edit requests, kept short so timeouts surface quickly. */
+  timeoutMs: number;
+}
+
+export const defaultMockProviderConfig: MockProviderConfig = {
+  latencyMs: 1500,
+  failEvery: 0,
+  failureModes: ['rateLimit', 'timeout', 'textInsteadOfImage', 'safetyBlock'],
+  timeoutMs: 5000,
+};
+
+let config: MockProviderConfig = defaultMockProviderConfig;
+let editRequestCount = 0;
+let injectedFailureCount = 0;
+
+export const getMockProviderConfig = (): MockProviderConfig => config;
+
+export const setMockProviderConfig = (newConfig: MockProviderConfig): void => {
+  config = newConfig;
+  editRequestCount = 0;
+  injectedFailureCount = 0;
+};
+
+const cannedTags = [
+  '1girl, solo, long_hair, blue_eyes, school_uniform. A girl with long hair in a school uniform.',
+  '1boy, solo, short_hair, brown_eyes, jacket. A boy with short hair wearing a jacket.',
+  '1girl, solo, twintails, red_eyes, maid_outfit. A girl with twintails wearing a maid outfit.',
+];
+
+/**
+ * A small, stable string hash so the same prompt always produces the same output.
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    return reject(new RequestCancelledError());
+  }
+  const onAbort = () => {
+    window.clearTimeout(timeoutId);
+    reject(new RequestCancelledError());
+  };
+  const timeoutId = window.setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Flips the image horizontally and tints it with a hue derived from the prompt.
+ */
+const transformImage = (image: Blob, prompt: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(image);
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        return reject(new Error('Could not get canvas context'));
+      }
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+      ctx.drawImage(img, 0, 0);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = 0.3;
+      ctx.fillStyle = `hsl(${hashString(prompt) % 360}, 80%, 50%)`;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode canvas')), image.type);
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(url);
+      reject(err);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Paints a gradient with hues derived from the prompt, standing in for a generated image.
+ */
+const renderGeneratedImage = (prompt: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 512;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return reject(new Error('Could not get canvas context'));
+    }
+    const hue = hashString(prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 80%, 50%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 80%, 30%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode canvas')), 'image/png');
+  });
+};
+
+/**
+ * Builds a successful response. Token counts roughly follow Gemini's: 258 per input image, 1290 per output image.
+ */
+const buildImageResponse = (
+  images: { data: string; mimeType: string }[],
+  prompt: string,
+  inputImageCount: number
+): Pick<GenerateContentResponse, 'candidates' | 'usageMetadata'> => {
+  const promptTokenCount = Math.ceil(prompt.length / 4) + inputImageCount * 258;
+  const candidatesTokenCount = images.length * 1290;
+  return {
+    candidates: images.map(inlineData => ({
+      content: { role: 'model', parts: [{ inlineData }] },
+      finishReason: FinishReason.STOP,
+      safetyRatings: [{ category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, probability: HarmProbability.NEGLIGIBLE }],
+    })),
+    usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+  };
+};
+
+const buildFailure = async (mode: MockFailureMode): Promise<Pick<GenerateContentResponse, 'candidates'>> => {
+  switch (mode) {
+    case 'rateLimit':
+      throw new Error('[429 Too Many Requests] Resource has been exhausted (mock). Please retry in 8s.');
+    case 'timeout':
+      // Never settles, so the shared timeout in resolveEditResponse fires.
+      return new Promise(() => {});
+    case 'textInsteadOfImage':
+      return {
+        candidates: [{
+          content: { role: 'model', parts: [{ text: 'I cannot edit this image, but here is a description of it instead (mock).' }] },
+          finishReason: FinishReason.STOP,
+        }],
+      };
+    case 'safetyBlock':
+      return {
+        candidates: [{
+          finishReason: FinishReason.SAFETY,
+          safetyRatings: [{ category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, probability: HarmProbability.HIGH, blocked: true }],
+        }],
+      };
+  }
+};
+
+/**
+ * Picks the failure for this request, if any. Failures are injected on a fixed
+ * cadence and cycle through the enabled modes, so runs are reproducible.
+ */
+const nextFailureMode = (): MockFailureMode | null => {
+  editRequestCount++;
+  if (config.failEvery <= 0 || config.failureModes.length === 0 || editRequestCount % config.failEvery !== 0) {
+    return null;
+  }
+  const mode = config.failureModes[injectedFailureCount % config.failureModes.length];
+  injectedFailureCount++;
+  return mode;
+};
+
+/**
+ * Simulates an image request: waits, injects the next failure if one is due, and
+ * otherwise renders one image per candidate.
+ * @param render Produces an image from a key combining everything the output depends on.
+ * @param inputImageCount How many source images the caller sends besides the inputs and references, for the token count.
+ */
+const simulateImageRequest = (
+  render: (key: string) => Promise<Blob>,
+  inputImageCount: number,
+  prompt: string,
+  fallbackMimeType: string,
+  { model, signal, generation, inputs = [], references = [], onRequestSent }: EditOptions
+): Promise<EditResult> => {
+  onRequestSent?.();
+  const failureMode = nextFailureMode();
+  const apiCall = (async () => {
+    await delay(config.latencyMs, signal);
+    if (failureMode) {
+      return buildFailure(failureMode);
+    }
+    // The model, seed, extra images and candidate index are part of the key so each of them visibly changes the output.
+    // Round-trip through base64 like a real response, so resolveEditResponse decodes it.
+    const candidates = await Promise.all(Array.from({ length: generation.candidateCount }, async (_, index) => {
+      const rendered = await render(`${model}:${generation.seed ?? ''}:${[...inputs, ...references].map(r => r.size).join(',')}:${prompt}:${index}`);
+      return { data: await blobToBase64(rendered), mimeType: rendered.type };
+    }));
+    return buildImageResponse(candidates, prompt, inputImageCount + inputs.length + references.length);
+  })();
+  return resolveEditResponse(apiCall, fallbackMimeType, Math.min(config.timeoutMs, generation.timeoutSeconds * 1000), signal);
+};
+
+const mockEditImage = (image: Blob, prompt: string, options: EditOptions): Promise<EditResult> => {
+  return simulateImageRequest(key => transformImage(image, key), 1, prompt, image.type, options);
+};
+
+const mockGenerateImage = (prompt: string, options: EditOptions): Promise<EditResult> => {
+  return simulateImageRequest(renderGeneratedImage, 0, prompt, 'image/png', options);
+};
+
+const mockGetTagsFromImage = async (image: Blob, _systemPrompt: string, { signal }: RequestOptions): Promise<string> => {
+  await delay(config.latencyMs, signal);
+  return cannedTags[hashString(`${image.type}:${image.size}`) % cannedTags.length];
+};
+
+const mockEnhancePrompt = async (userPrompt: string, { signal }: RequestOptions): Promise<string> => {
+  await delay(config.latencyMs, signal);
+  return `masterpiece, best quality, high resolution, absurdres, ${userPrompt.trim()}`;
+};
+
+/**
+ * An offline provider for developing the queue UI without network access or API quota.
+ */
+export const mockProvider: ImageEditProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+  capabilities: {
+    tagging: true,
+    promptEnhancement: true,
+    textToImage: true,
+  },
+  editModels: [
+    { id: 'mock-image', label: 'Mock Image', maxCandidates: 4 },
+    { id: 'mock-image-alt', label: 'Mock Image (Alternate Tint)', maxCandidates: 4 },
+  ],
+  textModels: [
+    { id: 'mock-text', label: 'Mock Text' },
+  ],
+  edit: mockEditImage,
+  generate: mockGenerateImage,
+  tag: mockGetTagsFromImage,
+  enhance: mockEnhancePrompt,
+};
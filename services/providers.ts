@@ -0,0 +1,124 @@
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import type { GenerationSettings, ResponseMetadata } from '../types';
+
+/**
+ * Optional features a provider may support beyond image editing.
+ */
+export interface ProviderCapabilities {
+  tagging: boolean;
+  promptEnhancement: boolean;
+  /** Can create images from a prompt alone, without a source image. */
+  textToImage: boolean;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  /** How many candidates one request may return. Models that don't say return one. */
+  maxCandidates?: number;
+}
+
+/**
+ * Per-request settings shared by every provider call.
+ */
+export interface RequestOptions {
+  /** The model to send the request to, one of the provider's model ids. */
+  model: string;
+  /** Cancels the request. Providers reject with a RequestCancelledError once aborted. */
+  signal?: AbortSignal;
+}
+
+export interface EditOptions extends RequestOptions {
+  generation: GenerationSettings;
+  /** Further images to combine with the source, in order. Sent right after it. */
+  inputs?: Blob[];
+  /** Extra images sent after the inputs, e.g. a character sheet to stay consistent with. */
+  references?: Blob[];
+  /** Called every time the request goes out, including when it is resent with another key. */
+  onRequestSent?: () => void;
+}
+
+export interface EditResult {
+  /** One per candidate that contained an image. Never empty. */
+  images: Blob[];
+  metadata?: ResponseMetadata;
+}
+
+/**
+ * A backend capable of editing images. The processing loop and the edit modal
+ * only talk to this interface, so new backends can be added without touching them.
+ */
+export interface ImageEditProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Models that can edit images. The first one is the default. */
+  editModels: ModelOption[];
+  /** Models used for tagging and prompt enhancement. The first one is the default. */
+  textModels: ModelOption[];
+  /**
+   * Edits an image.
+   * @param image The image to edit.
+   * @param prompt The editing instruction for the model.
+   * @returns A promise that resolves to the edited images and what the model said about them.
+   */
+  edit: (image: Blob, prompt: string, options: EditOptions) => Promise<EditResult>;
+  /**
+   * Creates images from a prompt without a source image. Only called when capabilities.textToImage is set.
+   * @returns A promise that resolves to the generated images and what the model said about them.
+   */
+  generate: (prompt: string, options: EditOptions) => Promise<EditResult>;
+  /**
+   * Generates descriptive tags for an image.
+   * @returns A promise that resolves to a comma-separated string of tags.
+   */
+  tag: (image: Blob, systemPrompt: string, options: RequestOptions) => Promise<string>;
+  /**
+   * Rewrites a user's prompt into a higher quality one.
+   */
+  enhance: (userPrompt: string, options: RequestOptions) => Promise<string>;
+}
+
+/**
+ * Returns the requested model if the list offers it, otherwise the list's default.
+ * Keeps a saved or per-image choice usable after switching providers.
+ */
+export const resolveModel = (models: ModelOption[], id: string | undefined): string => {
+  return models.some(model => model.id === id) ? id! : models[0].id;
+};
+
+export const getMaxCandidates = (models: ModelOption[], modelId: string): number => {
+  return models.find(model => model.id === modelId)?.maxCandidates ?? 1;
+};
+
+/**
+ * Caps the candidate count at what the model supports, so callers can record what was actually requested.
+ */
+export const limitCandidates = (generation: GenerationSettings, models: ModelOption[], modelId: string): GenerationSettings => {
+  const maxCandidates = getMaxCandidates(models, modelId);
+  return generation.candidateCount > maxCandidates ? { ...generation, candidateCount: maxCandidates } : generation;
+};
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+const providers = new Map<string, ImageEditProvider>();
+
+/**
+ * Makes a provider available for selection. Registering an existing id replaces it.
+ */
+export const registerProvider = (provider: ImageEditProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Looks up a provider by id, falling back to the default provider for unknown ids.
+ */
+export const getProvider = (id: string): ImageEditProvider => {
+  return providers.get(id) ?? providers.get(DEFAULT_PROVIDER_ID)!;
+};
+
+export const listProviders = (): ImageEditProvider[] => Array.from(providers.values());
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,36 @@
+/**
+ * localStorage that prefers the parent frame's storage, so settings survive when the
+ * app is embedded in an iframe, and never throws when storage is unavailable.
+ */
+export const safeLocalStorage = {
+  getItem: (key: string): string | null => {
+    try {
+      if (window.parent && window.parent.localStorage) {
+        return window.parent.localStorage.getItem(key);
+      }
+    } catch (e) {
+      console.warn("Could not access parent localStorage, falling back to iframe's localStorage.", e);
+    }
+    try {
+      return window.localStorage.getItem(key);
+    } catch (e) {
+      console.error("localStorage is not available.", e);
+      return null;
+    }
+  },
+  setItem: (key: string, value: string): void => {
+    try {
+      if (window.parent && window.parent.localStorage) {
+        window.parent.localStorage.setItem(key, value);
+        return;
+      }
+    } catch (e) {
+       console.warn("Could not access parent localStorage, falling back to iframe's localStorage.", e);
+    }
+     try {
+        window.localStorage.setItem(key, value);
+    } catch (e) {
+        console.error("localStorage is not available.", e);
+    }
+  },
+};
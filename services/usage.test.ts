@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { addUsage, defaultPriceTable, emptyUsage, formatCost, toUsage } from './usage';
+
+describe('toUsage', () => {
+  it('prices input and output tokens per million', () => {
+    const usage = toUsage({ finishReasons: ['STOP'], safetyRatings: [], promptTokens: 1000, outputTokens: 1290 }, 1, defaultPriceTable['gemini-2.5-flash-image']);
+    expect(usage).toMatchObject({ requests: 1, inputTokens: 1000, outputTokens: 1290, images: 1 });
+    // 1000 * $0.30 + 1290 * $30, per million tokens.
+    expect(usage.cost).toBeCloseTo(0.0003 + 0.0387, 10);
+  });
+
+  it('costs nothing for models without a price', () => {
+    const usage = toUsage({ finishReasons: ['STOP'], safetyRatings: [], promptTokens: 1000, outputTokens: 1290 }, 1, undefined);
+    expect(usage.cost).toBe(0);
+  });
+
+  it('still counts a request that came back without token counts', () => {
+    expect(toUsage(undefined, 0, defaultPriceTable['gemini-2.5-flash-image'])).toEqual({ ...emptyUsage, requests: 1 });
+  });
+});
+
+describe('addUsage', () => {
+  it('sums every field and treats a missing total as empty', () => {
+    const one = { requests: 1, inputTokens: 10, outputTokens: 20, images: 1, cost: 0.5 };
+    expect(addUsage(undefined, one)).toEqual(one);
+    expect(addUsage(one, one)).toEqual({ requests: 2, inputTokens: 20, outputTokens: 40, images: 2, cost: 1 });
+  });
+});
+
+describe('formatCost', () => {
+  it('keeps a tenth of a cent below a dollar', () => {
+    expect(formatCost(0.0387)).toBe('$0.039');
+  });
+
+  it('rounds to cents from a dollar up and for nothing at all', () => {
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
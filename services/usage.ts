@@ -0,0 +1,42 @@
+import type { ModelPrice, ResponseMetadata, UsageTotals } from '../types';
+
+/**
+ * Gemini's published prices in USD per million tokens. Image output is billed as output tokens,
+ * about 1290 per image. Models without an entry, like the mock ones, cost nothing.
+ */
+export const defaultPriceTable: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+};
+
+export const emptyUsage: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+
+/**
+ * Usage of a single request.
+ * @param imageCount How many images the response contained.
+ * @param price The model's price, if the table has one.
+ */
+export const toUsage = (metadata: ResponseMetadata | undefined, imageCount: number, price: ModelPrice | undefined): UsageTotals => {
+  const inputTokens = metadata?.promptTokens ?? 0;
+  const outputTokens = metadata?.outputTokens ?? 0;
+  const cost = price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 : 0;
+  return { requests: 1, inputTokens, outputTokens, images: imageCount, cost };
+};
+
+export const addUsage = (a: UsageTotals | undefined, b: UsageTotals): UsageTotals => {
+  const base = a ?? emptyUsage;
+  return {
+    requests: base.requests + b.requests,
+    inputTokens: base.inputTokens + b.inputTokens,
+    outputTokens: base.outputTokens + b.outputTokens,
+    images: base.images + b.images,
+    cost: base.cost + b.cost,
+  };
+};
+
+/**
+ * Formats an estimated cost, keeping a tenth of a cent for the small amounts single images cost.
+ */
+export const formatCost = (cost: number): string => {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 3 : 2)}`;
+};
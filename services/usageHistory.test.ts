@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyUsageEntry } from '../types';
+import { emptyUsage } from './usage';
+import { getPacificToday, getRecentDays, loadUsageHistory, recordDailyUsage, toUsageCsv } from './usageHistory';
+
+/** An in-memory stand-in for localStorage. */
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+const entry = (date: string, overrides: Partial<DailyUsageEntry> = {}): DailyUsageEntry => ({
+  date,
+  imagesProcessed: 0,
+  failures: {},
+  latencyTotalMs: 0,
+  latencySamples: 0,
+  taggingCalls: 0,
+  enhanceCalls: 0,
+  usage: emptyUsage,
+  ...overrides,
+});
+
+let storage: ReturnType<typeof createMemoryStorage>;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  vi.stubGlobal('window', { parent: undefined, localStorage: storage });
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('getPacificToday', () => {
+  it('rolls over at midnight Pacific time, not UTC', () => {
+    vi.setSystemTime(new Date('2026-03-10T06:59:00Z'));
+    expect(getPacificToday()).toBe('2026-03-09');
+    vi.setSystemTime(new Date('2026-03-10T07:00:00Z'));
+    expect(getPacificToday()).toBe('2026-03-10');
+  });
+});
+
+describe('recordDailyUsage', () => {
+  it('adds activity to the Pacific day it happened on', () => {
+    vi.setSystemTime(new Date('2026-03-10T06:00:00Z'));
+    recordDailyUsage({ imagesProcessed: 1, latencyMs: 2000, usage: { ...emptyUsage, requests: 1, cost: 0.04 } });
+    recordDailyUsage({ failure: 'rateLimited', usage: { ...emptyUsage, requests: 1 } });
+    recordDailyUsage({ failure: 'rateLimited', taggingCalls: 1 });
+    vi.setSystemTime(new Date('2026-03-10T08:00:00Z'));
+    recordDailyUsage({ imagesProcessed: 1 });
+
+    const [previousDay, today] = loadUsageHistory();
+    expect(previousDay).toMatchObject({
+      date: '2026-03-09',
+      imagesProcessed: 1,
+      failures: { rateLimited: 2 },
+      latencyTotalMs: 2000,
+      latencySamples: 1,
+      taggingCalls: 1,
+      usage: { requests: 2, cost: 0.04 },
+    });
+    expect(today).toMatchObject({ date: '2026-03-10', imagesProcessed: 1 });
+  });
+
+  it('drops days past the retention window on the next record', () => {
+    storage.setItem('usageHistory', JSON.stringify({
+      '2025-02-02': entry('2025-02-02', { imagesProcessed: 5 }),
+      '2025-02-03': entry('2025-02-03', { imagesProcessed: 6 }),
+    }));
+    // 400 days after 2025-02-03.
+    vi.setSystemTime(new Date('2026-03-10T20:00:00Z'));
+    recordDailyUsage({ imagesProcessed: 1 });
+
+    expect(loadUsageHistory().map(day => day.date)).toEqual(['2025-02-03', '2026-03-10']);
+  });
+});
+
+describe('getRecentDays', () => {
+  it('fills days without activity with empty entries, oldest first', () => {
+    vi.setSystemTime(new Date('2026-03-10T20:00:00Z'));
+    const days = getRecentDays([entry('2026-03-08', { imagesProcessed: 3 }), entry('2026-01-01')], 3);
+    expect(days.map(day => [day.date, day.imagesProcessed])).toEqual([
+      ['2026-03-08', 3],
+      ['2026-03-09', 0],
+      ['2026-03-10', 0],
+    ]);
+  });
+});
+
+describe('toUsageCsv', () => {
+  it('writes one row per day with a column per failure category', () => {
+    const csv = toUsageCsv([
+      entry('2026-03-09', {
+        imagesProcessed: 4,
+        failures: { rateLimited: 2, timeout: 1 },
+        latencyTotalMs: 9000,
+        latencySamples: 4,
+        taggingCalls: 1,
+        usage: { requests: 7, inputTokens: 1032, outputTokens: 5160, images: 4, cost: 0.15511 },
+      }),
+      entry('2026-03-10'),
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'date,images_processed,failures,failures_rateLimited,failures_timeout,failures_safetyBlocked,failures_textInsteadOfImage,'
+        + 'failures_invalidInput,failures_authFailed,failures_unknown,avg_latency_seconds,tagging_calls,enhance_calls,'
+        + 'requests,input_tokens,output_tokens,images_returned,estimated_cost_usd',
+      '2026-03-09,4,3,2,1,0,0,0,0,0,2.25,1,0,7,1032,5160,4,0.1551',
+      '2026-03-10,0,0,0,0,0,0,0,0,0,,0,0,0,0,0,0,0.0000',
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { DailyUsageEntry, ErrorCategory, UsageTotals } from '../types';
+import { errorCategoryLabels } from './apiErrors';
+import { safeLocalStorage } from './safeLocalStorage';
+import { addUsage, emptyUsage } from './usage';
+
+const USAGE_HISTORY_KEY = 'usageHistory';
+/** Older days are dropped so the log can't outgrow localStorage. */
+const RETENTION_DAYS = 400;
+
+/**
+ * The current date in Pacific time, which is when the Gemini API's daily quotas reset.
+ */
+export const getPacificToday = (): string => {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+};
+
+/**
+ * Shifts a YYYY-MM-DD date by whole days. Works in UTC so daylight saving never skips or repeats a day.
+ */
+const addDays = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const emptyDailyUsage = (date: string): DailyUsageEntry => ({
+  date,
+  imagesProcessed: 0,
+  failures: {},
+  latencyTotalMs: 0,
+  latencySamples: 0,
+  taggingCalls: 0,
+  enhanceCalls: 0,
+  usage: emptyUsage,
+});
+
+const readHistory = (): Record<string, DailyUsageEntry> => {
+  try {
+    const saved = safeLocalStorage.getItem(USAGE_HISTORY_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Failed to parse usage history from localStorage", error);
+    return {};
+  }
+};
+
+/**
+ * Every recorded day, oldest first. Days without any activity are missing.
+ */
+export const loadUsageHistory = (): DailyUsageEntry[] => {
+  return Object.values(readHistory())
+    .map(entry => ({ ...emptyDailyUsage(entry.date), ...entry }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * One piece of activity to add to today's entry. Every field is optional.
+ */
+export interface DailyUsageDelta {
+  imagesProcessed?: number;
+  failure?: ErrorCategory;
+  latencyMs?: number;
+  taggingCalls?: number;
+  enhanceCalls?: number;
+  usage?: UsageTotals;
+}
+
+/**
+ * Adds activity to today's entry in the persisted log.
+ */
+export const recordDailyUsage = (delta: DailyUsageDelta): void => {
+  const today = getPacificToday();
+  const history = readHistory();
+  const entry = { ...emptyDailyUsage(today), ...history[today] };
+
+  history[today] = {
+    ...entry,
+    imagesProcessed: entry.imagesProcessed + (delta.imagesProcessed ?? 0),
+    failures: delta.failure
+      ? { ...entry.failures, [delta.failure]: (entry.failures[delta.failure] ?? 0) + 1 }
+      : entry.failures,
+    latencyTotalMs: entry.latencyTotalMs + (delta.latencyMs ?? 0),
+    latencySamples: entry.latencySamples + (delta.latencyMs !== undefined ? 1 : 0),
+    taggingCalls: entry.taggingCalls + (delta.taggingCalls ?? 0),
+    enhanceCalls: entry.enhanceCalls + (delta.enhanceCalls ?? 0),
+    usage: delta.usage ? addUsage(entry.usage, delta.usage) : entry.usage,
+  };
+
+  const oldestKept = addDays(today, -RETENTION_DAYS);
+  for (const date of Object.keys(history)) {
+    if (date < oldestKept) {
+      delete history[date];
+    }
+  }
+  safeLocalStorage.setItem(USAGE_HISTORY_KEY, JSON.stringify(history));
+};
+
+/**
+ * The last `days` days up to today, oldest first, with empty entries for days without activity.
+ */
+export const getRecentDays = (history: DailyUsageEntry[], days: number): DailyUsageEntry[] => {
+  const byDate = new Map(history.map(entry => [entry.date, entry]));
+  const today = getPacificToday();
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index - days + 1);
+    return byDate.get(date) ?? emptyDailyUsage(date);
+  });
+};
+
+export const getAverageLatencyMs = (entry: DailyUsageEntry): number | null => {
+  return entry.latencySamples > 0 ? entry.latencyTotalMs / entry.latencySamples : null;
+};
+
+/**
+ * Formats entries as CSV with one row per day and one column per error category.
+ */
+export const toUsageCsv = (entries: DailyUsageEntry[]): string => {
+  const categories = Object.keys(errorCategoryLabels) as ErrorCategory[];
+  const header = [
+    'date', 'images_processed', 'failures',
+    ...categories.map(category => `failures_${category}`),
+    'avg_latency_seconds', 'tagging_calls', 'enhance_calls',
+    'requests', 'input_tokens', 'output_tokens', 'images_returned', 'estimated_cost_usd',
+  ];
+  const rows = entries.map(entry => {
+    const averageLatency = getAverageLatencyMs(entry);
+    const failures = categories.map(category => entry.failures[category] ?? 0);
+    return [
+      entry.date,
+      entry.imagesProcessed,
+      failures.reduce((sum, count) => sum + count, 0),
+      ...failures,
+      averageLatency === null ? '' : (averageLatency / 1000).toFixed(2),
+      entry.taggingCalls,
+      entry.enhanceCalls,
+      entry.usage.requests,
+      entry.usage.inputTokens,
+      entry.usage.outputTokens,
+      entry.usage.images,
+      entry.usage.cost.toFixed(4),
+    ].join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
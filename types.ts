@@ -6,21 +6,207 @@ export enum ImageStatus {
   ERROR = 'error',
 }
 
+/**
+ * What went wrong with a failed API request.
+ */
+export type ErrorCategory =
+  | 'rateLimited'
+  | 'timeout'
+  | 'safetyBlocked'
+  | 'textInsteadOfImage'
+  | 'invalidInput'
+  | 'authFailed'
+  | 'unknown';
+
+export interface RetryPolicy {
+  /** Total attempts allowed per batch run, including the first. */
+  maxAttempts: number;
+  /** Rate-limited requests are retried with backoff first and only land here once that gives up. */
+  retryOn: ErrorCategory[];
+  /** Draw fresh random prompt suggestions for each retry of a randomized prompt. */
+  rerandomizePrompt: boolean;
+}
+
+export type QuotaUnit = 'images' | 'requests';
+
+/**
+ * A daily cap the batch queue enforces before dispatching. Days follow Pacific time, like the API's own quotas.
+ */
+export interface DailyQuota {
+  /** Null means no limit. */
+  limit: number | null;
+  /** Images counts completed edits; requests counts every image request sent, including retries and ones that never got a response. */
+  unit: QuotaUnit;
+  /** The share of the limit, in percent, from which the counter warns. */
+  warningPercent: number;
+}
+
+/**
+ * How strictly the model's safety filters block responses. 'default' leaves the API's own setting.
+ */
+export type SafetyThreshold = 'default' | 'blockNone' | 'blockOnlyHigh' | 'blockMediumAndAbove' | 'blockLowAndAbove';
+
+/**
+ * Settings sent with every edit request. Optional values are left to the model when unset.
+ */
+export interface GenerationSettings {
+  timeoutSeconds: number;
+  temperature?: number;
+  /** The same seed, prompt and model give the same output where the model supports it. */
+  seed?: number;
+  candidateCount: number;
+  safetyThreshold: SafetyThreshold;
+}
+
+export interface SafetyRatingSummary {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+/**
+ * What the model said about a request besides the images, kept to explain failed or unexpected outputs.
+ */
+export interface ResponseMetadata {
+  /** Text the model returned alongside or instead of an image. */
+  text?: string;
+  /** One per returned candidate. */
+  finishReasons: string[];
+  /** Ratings of the candidate the result or error was taken from. */
+  safetyRatings: SafetyRatingSummary[];
+  /** Set when the prompt itself was blocked, so no candidate was generated. */
+  blockReason?: string;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Token and spend totals, for one job, one run or one day.
+ */
+export interface UsageTotals {
+  /** Image requests that got a response, successful or not. */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Images returned, counting every candidate. */
+  images: number;
+  /** Estimated in USD from the price table at the time of the request. */
+  cost: number;
+}
+
+/**
+ * Everything recorded about one Pacific-time day of work, for the usage history.
+ */
+export interface DailyUsageEntry {
+  /** YYYY-MM-DD in Pacific time. */
+  date: string;
+  imagesProcessed: number;
+  /** Failed attempts by category, counting each retry that failed. */
+  failures: Partial<Record<ErrorCategory, number>>;
+  /** Summed over completed edits; divide by latencySamples for the average. */
+  latencyTotalMs: number;
+  latencySamples: number;
+  taggingCalls: number;
+  enhanceCalls: number;
+  usage: UsageTotals;
+}
+
+/**
+ * What a model costs in USD per million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface AttemptLogEntry {
+  timestamp: number;
+  prompt: string;
+  /** Set once the attempt fails. */
+  error?: string;
+}
+
+/**
+ * A Gemini API key saved in this browser.
+ */
+export interface StoredApiKey {
+  id: string;
+  label: string;
+  key: string;
+  addedAt: number;
+  /** Whether requests are spread onto this key. */
+  enabled: boolean;
+}
+
+/**
+ * An extra image sent alongside the source, such as a character sheet or a style sample.
+ */
+export interface ReferenceImage {
+  id: string;
+  name: string;
+  blob: Blob;
+}
+
 export interface EditHistory {
-  dataUrl: string;
+  blob: Blob;
   prompt: string;
   timestamp: number;
+  /** The model that produced this edit. Missing for edits made before models were recorded. */
+  model?: string;
+  generation?: GenerationSettings;
+  responseMetadata?: ResponseMetadata;
 }
 
 export interface ImageFile {
   id: string;
   file: File;
-  originalDataUrl: string;
-  editedDataUrl?: string;
+  /** The image to edit. Repeats share their source's blob. */
+  originalBlob: Blob;
+  editedBlob?: Blob;
+  /** Every image the last request returned when it returned more than one. editedBlob is the chosen one. */
+  candidates?: Blob[];
+  /** Sent with this image only, after the run's reference images. */
+  referenceImages?: ReferenceImage[];
+  /**
+   * Set for composition jobs: the images combined with originalBlob, in the order the prompt refers to them.
+   * originalBlob is always the first input.
+   */
+  compositionInputs?: ReferenceImage[];
+  /**
+   * Set for text-to-image jobs, which have no source image. Their file and originalBlob are
+   * an empty placeholder that only carries the job's name, until the result is used as an original.
+   */
+  isGeneration?: boolean;
   status: ImageStatus;
   prompt?: string;
+  /** The edit model that produced editedBlob. */
+  model?: string;
+  /** Chosen for this image in the edit dialog. Runs use it instead of the run's edit model. */
+  modelOverride?: string;
+  /** The generation settings that produced editedBlob. */
+  generation?: GenerationSettings;
+  /** Chosen for this image in the edit dialog. Runs use them instead of the run's generation settings. */
+  generationOverride?: GenerationSettings;
+  /** From the last response, successful or not. */
+  responseMetadata?: ResponseMetadata;
+  /** Summed over every request made for this image, including retries and failed attempts. */
+  usage?: UsageTotals;
+  /** Queued images with a higher priority run first. Missing means 0, normal priority. */
+  priority?: number;
+  /** When the image last entered the batch queue, in epoch milliseconds. */
+  queuedAt?: number;
+  /** When its latest attempt started. */
+  startedAt?: number;
+  /** When its latest attempt completed or failed. */
+  finishedAt?: number;
   error?: string;
-  retried?: boolean;
+  errorCategory?: ErrorCategory;
+  /** The policy its latest attempt ran under. Every attempt takes the run's current policy. */
+  retryPolicy?: RetryPolicy;
+  attemptLog?: AttemptLogEntry[];
+  /** The prompt before random suggestions were added, so retries can draw new ones. */
+  basePrompt?: string;
   history?: EditHistory[];
   hasBeenAutoTaggedInModal?: boolean;
   isRepeat?: boolean;